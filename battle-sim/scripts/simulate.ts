@@ -0,0 +1,307 @@
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  AI_LEVELS,
+  applyAction,
+  createBattle,
+  createRng,
+  DIFFICULTIES,
+  needsAction,
+  opposingSide,
+  parseSeed,
+  RULES_PRESET_IDS,
+  RULES_PRESETS,
+  SIDES,
+  turnsPlayed,
+  type BattleEvent,
+  type Difficulty,
+  type RulesPreset,
+  type Side,
+} from "../src/battle";
+
+// Runs AI-vs-AI battles headlessly and reports balance numbers as JSON or CSV.
+// Usage: npx tsx scripts/simulate.ts --games 10000 --seed 1 [--format csv] [--out report.csv]
+
+interface MoveStats {
+  move: string;
+  type: string;
+  uses: number;
+  hits: number;
+  misses: number;
+  crits: number;
+  damage: number;
+  clampedMin: number;
+  clampedMax: number;
+}
+
+interface Report {
+  games: number;
+  seed: number;
+  rules: RulesPreset;
+  ai: Record<Side, Difficulty>;
+  wins: Record<Side, number>;
+  unfinished: number;
+  winRate: Record<Side, number>;
+  averageTurns: number;
+  clamp: { hits: number; min: number; max: number; minRate: number; maxRate: number };
+  moves: (MoveStats & { averageDamage: number; hitRate: number })[];
+}
+
+const USAGE = `Usage: npx tsx scripts/simulate.ts [options]
+
+  --games <n>        battles to simulate (default 1000)
+  --seed <n>         base seed; every game derives its own seed from it (default 1)
+  --player <level>   AI for the player side: ${DIFFICULTIES.join(", ")} (default normal)
+  --opponent <level> AI for the opponent side (default normal)
+  --rules <preset>   battle rules: ${RULES_PRESET_IDS.join(", ")} (default classic)
+  --max-turns <n>    abandon a battle after this many turns (default 300)
+  --format <fmt>     json or csv (default json)
+  --out <file>       write the report to a file instead of stdout
+`;
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const readCount = (value: string | undefined, fallback: number, name: string) => {
+  if (value === undefined) return fallback;
+  const parsed = parseSeed(value);
+  return parsed === null || parsed === 0 ? fail(`--${name} must be a positive integer`) : parsed;
+};
+
+// 0 is as good a seed as any other; only what isn’t a uint32 is refused.
+const readSeed = (value: string | undefined) => {
+  if (value === undefined) return 1;
+  const parsed = parseSeed(value);
+  return parsed === null ? fail("--seed must be an integer from 0 to 4294967295") : parsed;
+};
+
+const readDifficulty = (value: string | undefined, name: string): Difficulty => {
+  if (value === undefined) return "normal";
+  return (DIFFICULTIES as string[]).includes(value)
+    ? (value as Difficulty)
+    : fail(`--${name} must be one of ${DIFFICULTIES.join(", ")}`);
+};
+
+const readRules = (value: string | undefined): RulesPreset => {
+  if (value === undefined) return "classic";
+  return (RULES_PRESET_IDS as string[]).includes(value)
+    ? (value as RulesPreset)
+    : fail(`--rules must be one of ${RULES_PRESET_IDS.join(", ")}`);
+};
+
+const ratio = (part: number, whole: number) => (whole === 0 ? 0 : part / whole);
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const newMoveStats = (move: string, type: string): MoveStats => ({
+  move,
+  type,
+  uses: 0,
+  hits: 0,
+  misses: 0,
+  crits: 0,
+  damage: 0,
+  clampedMin: 0,
+  clampedMax: 0,
+});
+
+// Missed, Crit and move Damage always follow the MoveUsed that caused them, so each
+// is credited to the last move its attacker used. Status damage carries a cause.
+const tallyEvents = (
+  events: BattleEvent[],
+  moves: Map<string, MoveStats>,
+  used: Partial<Record<Side, MoveStats>>,
+) => {
+  events.forEach((event) => {
+    switch (event.type) {
+      case "MoveUsed": {
+        const stats = moves.get(event.move.name) ?? newMoveStats(event.move.name, event.move.type);
+        stats.uses += 1;
+        moves.set(stats.move, stats);
+        used[event.side] = stats;
+        return;
+      }
+      case "Missed": {
+        const stats = used[event.side];
+        if (stats) stats.misses += 1;
+        return;
+      }
+      case "Crit": {
+        const stats = used[opposingSide(event.side)];
+        if (stats) stats.crits += 1;
+        return;
+      }
+      case "Damage": {
+        const stats = used[opposingSide(event.side)];
+        if (!stats || event.cause) return;
+        stats.hits += 1;
+        stats.damage += event.amount;
+        if (event.clamped === "min") stats.clampedMin += 1;
+        if (event.clamped === "max") stats.clampedMax += 1;
+      }
+    }
+  });
+};
+
+const simulate = (
+  games: number,
+  seed: number,
+  rules: RulesPreset,
+  ai: Record<Side, Difficulty>,
+  maxTurns: number,
+) => {
+  const seeds = createRng(seed);
+  const moves = new Map<string, MoveStats>();
+  const wins: Record<Side, number> = { player: 0, opponent: 0 };
+  let unfinished = 0;
+  let turns = 0;
+
+  for (let game = 0; game < games; game += 1) {
+    let state = createBattle(
+      Math.floor(seeds.next() * 0x100000000) >>> 0,
+      undefined,
+      undefined,
+      RULES_PRESETS[rules].rules,
+    );
+    const used: Partial<Record<Side, MoveStats>> = {};
+    while (!state.victor && state.turn <= maxTurns) {
+      const side = SIDES.find((current) => needsAction(state, current));
+      if (!side) break;
+      const result = applyAction(state, AI_LEVELS[ai[side]].chooseAction(state, side));
+      tallyEvents(result.events, moves, used);
+      state = result.state;
+    }
+    if (state.victor) {
+      wins[state.victor] += 1;
+    } else {
+      unfinished += 1;
+    }
+    turns += turnsPlayed(state);
+    if ((game + 1) % 1000 === 0) process.stderr.write(`  ${game + 1}/${games} battles\r`);
+  }
+  process.stderr.write("\n");
+
+  const rows = [...moves.values()].sort((a, b) => b.uses - a.uses);
+  const hits = rows.reduce((total, row) => total + row.hits, 0);
+  const min = rows.reduce((total, row) => total + row.clampedMin, 0);
+  const max = rows.reduce((total, row) => total + row.clampedMax, 0);
+
+  const report: Report = {
+    games,
+    seed,
+    rules,
+    ai,
+    wins,
+    unfinished,
+    winRate: {
+      player: round(ratio(wins.player, games)),
+      opponent: round(ratio(wins.opponent, games)),
+    },
+    averageTurns: round(ratio(turns, games)),
+    clamp: { hits, min, max, minRate: round(ratio(min, hits)), maxRate: round(ratio(max, hits)) },
+    moves: rows.map((row) => ({
+      ...row,
+      averageDamage: round(ratio(row.damage, row.hits)),
+      hitRate: round(ratio(row.hits, row.uses)),
+    })),
+  };
+  return report;
+};
+
+const csvText = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const toCsv = (report: Report) => {
+  const summary = [
+    ["games", report.games],
+    ["seed", report.seed],
+    ["rules", report.rules],
+    ["player_ai", report.ai.player],
+    ["opponent_ai", report.ai.opponent],
+    ["player_win_rate", report.winRate.player],
+    ["opponent_win_rate", report.winRate.opponent],
+    ["unfinished", report.unfinished],
+    ["average_turns", report.averageTurns],
+    ["damaging_hits", report.clamp.hits],
+    ["clamp_min_rate", report.clamp.minRate],
+    ["clamp_max_rate", report.clamp.maxRate],
+  ];
+  const header = [
+    "move",
+    "type",
+    "uses",
+    "hits",
+    "misses",
+    "crits",
+    "damage",
+    "average_damage",
+    "hit_rate",
+    "clamped_min",
+    "clamped_max",
+  ];
+  const rows = report.moves.map((row) =>
+    [
+      csvText(row.move),
+      row.type,
+      row.uses,
+      row.hits,
+      row.misses,
+      row.crits,
+      row.damage,
+      row.averageDamage,
+      row.hitRate,
+      row.clampedMin,
+      row.clampedMax,
+    ].join(","),
+  );
+  return [
+    "metric,value",
+    ...summary.map((entry) => entry.join(",")),
+    "",
+    header.join(","),
+    ...rows,
+    "",
+  ].join("\n");
+};
+
+const { values } = parseArgs({
+  options: {
+    games: { type: "string" },
+    seed: { type: "string" },
+    player: { type: "string" },
+    opponent: { type: "string" },
+    rules: { type: "string" },
+    "max-turns": { type: "string" },
+    format: { type: "string" },
+    out: { type: "string" },
+    help: { type: "boolean", short: "h" },
+  },
+});
+
+if (values.help) {
+  process.stdout.write(USAGE);
+  process.exit(0);
+}
+
+const format = values.format ?? "json";
+if (format !== "json" && format !== "csv") fail("--format must be json or csv");
+
+const report = simulate(
+  readCount(values.games, 1000, "games"),
+  readSeed(values.seed),
+  readRules(values.rules),
+  {
+    player: readDifficulty(values.player, "player"),
+    opponent: readDifficulty(values.opponent, "opponent"),
+  },
+  readCount(values["max-turns"], 300, "max-turns"),
+);
+const output = format === "csv" ? toCsv(report) : `${JSON.stringify(report, null, 2)}\n`;
+
+if (values.out) {
+  writeFileSync(values.out, output);
+  process.stderr.write(`Wrote ${values.out}\n`);
+} else {
+  process.stdout.write(output);
+}
@@ -0,0 +1,307 @@
+import { randomInt, randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import {
+  AI_LEVELS,
+  applyAction,
+  CONTENT,
+  ContentError,
+  createReplay,
+  needsAction,
+  opposingSide,
+  parseAction,
+  parseTeam,
+  randomSeed,
+  recordAction,
+  SIDES,
+  startReplay,
+  type BattleAction,
+  type BattleState,
+  type Replay,
+  type Side,
+  type TeamSpec,
+} from "../src/battle";
+import {
+  decodeClientMessage,
+  encodeMessage,
+  ONLINE_PORT,
+  readySides,
+  RECONNECT_SECONDS,
+  redactChoices,
+  redactRolls,
+  TURN_SECONDS,
+  type ClientMessage,
+  type ServerMessage,
+} from "../src/online/protocol";
+import { acceptWebSocket, type WebSocketConnection } from "./websocket";
+
+interface Seat {
+  token: string;
+  name: string;
+  team: TeamSpec;
+  socket?: WebSocketConnection;
+  graceTimer?: NodeJS.Timeout;
+}
+
+interface Room {
+  code: string;
+  open: boolean;
+  seats: Partial<Record<Side, Seat>>;
+  battle?: { state: BattleState; replay: Replay; deadline: number; timer?: NodeJS.Timeout };
+}
+
+const ROOM_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+
+const rooms = new Map<string, Room>();
+const seatOf = new Map<WebSocketConnection, { room: Room; side: Side }>();
+
+const log = (room: Room, message: string) => console.log(`[${room.code}] ${message}`);
+
+const send = (socket: WebSocketConnection | undefined, message: ServerMessage) => {
+  socket?.send(encodeMessage(message));
+};
+
+const broadcast = (room: Room, message: ServerMessage) => {
+  SIDES.forEach((side) => send(room.seats[side]?.socket, message));
+};
+
+const newRoomCode = () => {
+  let code = "";
+  do {
+    code = Array.from({ length: 4 }, () => ROOM_ALPHABET[randomInt(ROOM_ALPHABET.length)]).join("");
+  } while (rooms.has(code));
+  return code;
+};
+
+const closeRoom = (room: Room) => {
+  if (room.battle?.timer) clearTimeout(room.battle.timer);
+  SIDES.forEach((side) => {
+    const seat = room.seats[side];
+    if (seat?.graceTimer) clearTimeout(seat.graceTimer);
+    if (seat?.socket) seatOf.delete(seat.socket);
+  });
+  rooms.delete(room.code);
+  log(room, "closed");
+};
+
+const syncSeat = (room: Room, side: Side) => {
+  const { battle, seats } = room;
+  if (!battle) return;
+  send(seats[side]?.socket, {
+    type: "sync",
+    state: redactRolls(redactChoices(battle.state, side)),
+    ready: readySides(battle.state),
+    names: { player: seats.player?.name ?? "Trainer A", opponent: seats.opponent?.name ?? "Trainer B" },
+    connected: { player: !!seats.player?.socket, opponent: !!seats.opponent?.socket },
+    deadline: battle.deadline,
+  });
+};
+
+const finish = (room: Room, victor: Side, reason: "victory" | "forfeit") => {
+  if (!room.battle) return;
+  broadcast(room, { type: "end", victor, reason, replay: { ...room.battle.replay, victor } });
+  log(room, `${victor} wins by ${reason}`);
+  closeRoom(room);
+};
+
+// Anyone still owing a decision when the clock runs out gets a random legal action.
+const armTimer = (room: Room) => {
+  const { battle } = room;
+  if (!battle) return;
+  if (battle.timer) clearTimeout(battle.timer);
+  battle.deadline = Date.now() + TURN_SECONDS * 1000;
+  battle.timer = setTimeout(() => {
+    SIDES.forEach((side) => {
+      if (room.battle && needsAction(room.battle.state, side)) {
+        submit(room, AI_LEVELS.easy.chooseAction(room.battle.state, side));
+      }
+    });
+  }, TURN_SECONDS * 1000);
+};
+
+const submit = (room: Room, action: BattleAction): boolean => {
+  const { battle } = room;
+  if (!battle) return false;
+  const result = applyAction(battle.state, action);
+  if (result.events.length === 0) return false;
+
+  battle.state = result.state;
+  battle.replay = recordAction(battle.replay, action);
+  if (result.events.every((event) => event.type === "ActionSelected")) {
+    broadcast(room, { type: "ready", sides: readySides(battle.state) });
+    return true;
+  }
+
+  armTimer(room);
+  broadcast(room, {
+    type: "turn",
+    steps: result.steps.map((step) => ({ ...step, state: redactRolls(step.state) })),
+    deadline: battle.deadline,
+  });
+  if (battle.state.victor) finish(room, battle.state.victor, "victory");
+  return true;
+};
+
+const startBattle = (room: Room) => {
+  const { player, opponent } = room.seats;
+  if (!player || !opponent) return;
+  const replay = createReplay(randomSeed(), { player: player.team, opponent: opponent.team });
+  room.battle = { state: startReplay(replay), replay, deadline: 0 };
+  armTimer(room);
+  SIDES.forEach((side) => syncSeat(room, side));
+  log(room, `battle started with seed ${replay.seed}`);
+};
+
+const findRoom = (code: string | undefined): Room | string => {
+  if (code) {
+    const wanted = code.trim().toUpperCase();
+    const room = rooms.get(wanted);
+    if (!room) {
+      const created: Room = { code: wanted, open: false, seats: {} };
+      rooms.set(wanted, created);
+      return created;
+    }
+    return room.seats.opponent ? `Room ${wanted} is already full.` : room;
+  }
+  const waiting = [...rooms.values()].find((room) => room.open && !room.seats.opponent);
+  if (waiting) return waiting;
+  const created: Room = { code: newRoomCode(), open: true, seats: {} };
+  rooms.set(created.code, created);
+  return created;
+};
+
+const resume = (socket: WebSocketConnection, token: string) => {
+  for (const room of rooms.values()) {
+    const side = SIDES.find((current) => room.seats[current]?.token === token);
+    const seat = side && room.seats[side];
+    if (!side || !seat) continue;
+    if (seat.graceTimer) clearTimeout(seat.graceTimer);
+    if (seat.socket) seatOf.delete(seat.socket);
+    seat.graceTimer = undefined;
+    seat.socket = socket;
+    seatOf.set(socket, { room, side });
+    send(socket, { type: "joined", room: room.code, side, token });
+    if (room.battle) {
+      syncSeat(room, side);
+      send(room.seats[opposingSide(side)]?.socket, { type: "presence", side, connected: true });
+    } else {
+      send(socket, { type: "waiting", room: room.code });
+    }
+    log(room, `${side} reconnected`);
+    return;
+  }
+  send(socket, { type: "error", message: "That battle has already ended." });
+};
+
+const join = (socket: WebSocketConnection, message: Extract<ClientMessage, { type: "join" }>) => {
+  if (seatOf.has(socket)) return;
+  if (message.token) {
+    resume(socket, message.token);
+    return;
+  }
+
+  let team: TeamSpec;
+  try {
+    team = parseTeam(message.team ?? CONTENT.teams.player, CONTENT.species, "team");
+  } catch (error) {
+    if (!(error instanceof ContentError)) throw error;
+    send(socket, { type: "error", message: "Your team isn’t valid.", issues: error.issues });
+    return;
+  }
+
+  const room = findRoom(message.room);
+  if (typeof room === "string") {
+    send(socket, { type: "error", message: room });
+    return;
+  }
+  const side: Side = room.seats.player ? "opponent" : "player";
+  const token = randomUUID();
+  const name = message.name?.trim().slice(0, 24) || (side === "player" ? "Trainer A" : "Trainer B");
+  room.seats[side] = { token, name, team, socket };
+  seatOf.set(socket, { room, side });
+  send(socket, { type: "joined", room: room.code, side, token });
+  log(room, `${name} joined as ${side}`);
+
+  if (room.seats.player && room.seats.opponent) {
+    startBattle(room);
+  } else {
+    send(socket, { type: "waiting", room: room.code });
+  }
+};
+
+const leave = (socket: WebSocketConnection, graceful: boolean) => {
+  const entry = seatOf.get(socket);
+  if (!entry) return;
+  seatOf.delete(socket);
+  const { room, side } = entry;
+  const seat = room.seats[side];
+  if (!seat || seat.socket !== socket) return;
+  seat.socket = undefined;
+
+  if (!room.battle) {
+    closeRoom(room);
+    return;
+  }
+  if (graceful) {
+    finish(room, opposingSide(side), "forfeit");
+    return;
+  }
+  send(room.seats[opposingSide(side)]?.socket, { type: "presence", side, connected: false });
+  seat.graceTimer = setTimeout(() => finish(room, opposingSide(side), "forfeit"), RECONNECT_SECONDS * 1000);
+  log(room, `${side} disconnected; holding the seat for ${RECONNECT_SECONDS}s`);
+};
+
+const handleMessage = (socket: WebSocketConnection, text: string) => {
+  const message = decodeClientMessage(text);
+  if (!message) {
+    send(socket, { type: "error", message: "That message isn’t one the server understands." });
+    return;
+  }
+  switch (message.type) {
+    case "join":
+      join(socket, message);
+      return;
+    case "action": {
+      const entry = seatOf.get(socket);
+      if (!entry) {
+        send(socket, { type: "error", message: "Join a room before choosing an action." });
+        return;
+      }
+      // The seat decides the side, whatever the client claims.
+      const action = parseAction({ ...message.action, side: entry.side });
+      if (!action || !submit(entry.room, action)) {
+        send(socket, { type: "error", message: "That action isn’t available right now." });
+      }
+      return;
+    }
+    case "leave":
+      leave(socket, true);
+  }
+};
+
+// One bad frame must not take every other room down with it.
+const safelyHandle = (socket: WebSocketConnection, text: string) => {
+  try {
+    handleMessage(socket, text);
+  } catch (error) {
+    console.error(error);
+    send(socket, { type: "error", message: "Something went wrong handling that message." });
+  }
+};
+
+const port = Number(process.env.PORT ?? ONLINE_PORT);
+
+const server = createServer((_, response) => {
+  response.writeHead(200, { "Content-Type": "text/plain" });
+  response.end(`Atelier battle server · ${rooms.size} room(s)\n`);
+});
+
+server.on("upgrade", (request, socket) => {
+  const connection: WebSocketConnection | null = acceptWebSocket(request, socket, {
+    onMessage: (text) => connection && safelyHandle(connection, text),
+    onClose: () => connection && leave(connection, false),
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Atelier battle server listening on ws://localhost:${port}`);
+});
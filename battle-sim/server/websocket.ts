@@ -0,0 +1,170 @@
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import type { Duplex } from "node:stream";
+
+// Just enough of RFC 6455 for the battle server: text frames, fragmentation, ping/pong and close.
+// Keeping it on Node built-ins means the server runs without installing anything.
+
+const HANDSHAKE_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_PAYLOAD = 1 << 20;
+const HEARTBEAT_MS = 20_000;
+
+const OPCODE = { continuation: 0x0, text: 0x1, close: 0x8, ping: 0x9, pong: 0xa } as const;
+
+export interface WebSocketConnection {
+  send: (text: string) => void;
+  close: (code?: number) => void;
+}
+
+export interface WebSocketHandlers {
+  onMessage: (text: string) => void;
+  onClose: () => void;
+}
+
+const encodeFrame = (opcode: number, payload: Buffer) => {
+  const length = payload.length;
+  const header =
+    length < 126
+      ? Buffer.from([0x80 | opcode, length])
+      : length < 0x10000
+        ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+        : Buffer.concat([Buffer.from([0x80 | opcode, 127]), Buffer.alloc(8)]);
+  if (length >= 0x10000) header.writeBigUInt64BE(BigInt(length), 2);
+  return Buffer.concat([header, payload]);
+};
+
+export const acceptWebSocket = (
+  request: IncomingMessage,
+  socket: Duplex,
+  handlers: WebSocketHandlers,
+): WebSocketConnection | null => {
+  const key = request.headers["sec-websocket-key"];
+  if (request.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return null;
+  }
+  const accept = createHash("sha1").update(key + HANDSHAKE_GUID).digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n"),
+  );
+
+  let buffered = Buffer.alloc(0);
+  // The frames of a text message still waiting for its final frame, or null between messages.
+  let fragments: Buffer[] | null = null;
+  let fragmentBytes = 0;
+  let closed = false;
+  let alive = true;
+
+  const write = (opcode: number, payload: Buffer) => {
+    if (!closed && socket.writable) socket.write(encodeFrame(opcode, payload));
+  };
+
+  const close = (code = 1000) => {
+    if (closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    write(OPCODE.close, payload);
+    closed = true;
+    socket.end();
+  };
+
+  const heartbeat = setInterval(() => {
+    if (!alive) {
+      socket.destroy();
+      return;
+    }
+    alive = false;
+    write(OPCODE.ping, Buffer.alloc(0));
+  }, HEARTBEAT_MS);
+
+  const handleFrame = (fin: boolean, opcode: number, payload: Buffer) => {
+    switch (opcode) {
+      case OPCODE.text:
+      case OPCODE.continuation: {
+        // A text frame may only start a message and a continuation may only extend one.
+        if ((opcode === OPCODE.text) !== (fragments === null)) {
+          close(1002);
+          return;
+        }
+        if (fragmentBytes + payload.length > MAX_PAYLOAD) {
+          close(1009);
+          return;
+        }
+        const parts = fragments ?? [];
+        // Empty frames add nothing, so they can't grow the list without growing the size.
+        if (payload.length > 0) parts.push(payload);
+        fragmentBytes += payload.length;
+        fragments = parts;
+        if (fin) {
+          fragments = null;
+          fragmentBytes = 0;
+          handlers.onMessage(Buffer.concat(parts).toString("utf8"));
+        }
+        return;
+      }
+      case OPCODE.ping:
+        write(OPCODE.pong, payload);
+        return;
+      case OPCODE.pong:
+        alive = true;
+        return;
+      case OPCODE.close:
+        close();
+        return;
+      default:
+        close(1003);
+    }
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    if (closed) return;
+    buffered = Buffer.concat([buffered, chunk]);
+    while (!closed && buffered.length >= 2) {
+      const fin = (buffered[0] & 0x80) !== 0;
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffered.length < 4) return;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) return;
+        length = Number(buffered.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked || length > MAX_PAYLOAD) {
+        close(masked ? 1009 : 1002);
+        return;
+      }
+      if (buffered.length < offset + 4 + length) return;
+
+      const mask = buffered.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+      for (let index = 0; index < payload.length; index += 1) payload[index] ^= mask[index % 4];
+      buffered = buffered.subarray(offset + 4 + length);
+      alive = true;
+      handleFrame(fin, opcode, payload);
+    }
+  });
+
+  socket.on("close", () => {
+    closed = true;
+    clearInterval(heartbeat);
+    handlers.onClose();
+  });
+  socket.on("error", () => socket.destroy());
+
+  return {
+    send: (text) => write(OPCODE.text, Buffer.from(text, "utf8")),
+    close,
+  };
+};
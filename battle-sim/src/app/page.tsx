@@ -1,671 +1,1701 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
-  AnimatePresence,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type FormEvent,
+} from "react";
+import Link from "next/link";
+import {
   motion,
+  MotionConfig,
   useAnimationControls,
-  type Variants,
+  useReducedMotion,
 } from "framer-motion";
 import clsx from "clsx";
+import {
+  activePokemon,
+  AI_LEVELS,
+  applyAction,
+  canAfford,
+  canSwitchTo,
+  clamp,
+  CONTENT,
+  ContentError,
+  createReplay,
+  createRng,
+  DEFAULT_SEED,
+  appendLog,
+  appendMessage,
+  DIFFICULTIES,
+  applyReward,
+  DEFAULT_FIELD_TURNS,
+  FIELD_CONDITIONS,
+  FIELD_LABELS,
+  finishFight,
+  formatMultiplier,
+  formatTranscript,
+  gauntletDifficulty,
+  gauntletReplay,
+  needsAction,
+  opposingSide,
+  parseSeed,
+  previewDamage,
+  randomSeed,
+  recordAction,
+  rewardChoices,
+  RULES_PRESET_IDS,
+  RULES_PRESETS,
+  rulesPreset,
+  SIDES,
+  STAB_MULTIPLIER,
+  startGauntlet,
+  startLog,
+  startReplay,
+  summarizeMatch,
+  type BattleAction,
+  type BattleEvent,
+  type BattlePokemon,
+  type BattleRules,
+  type BattleState,
+  type BattleStep,
+  type Difficulty,
+  type BattleTeam,
+  type Field,
+  type FieldCondition,
+  type GauntletReward,
+  type GauntletRun,
+  type LogEntry,
+  type LogFlag,
+  type LogKind,
+  type Move,
+  type Replay,
+  type RulesPreset,
+  type Side,
+} from "../battle";
+import { eventCues, LOW_HP_RATIO } from "../audio/battle-audio";
+import { useBattleAudio } from "../audio/use-battle-audio";
+import { EffectLayer } from "../components/effect-layer";
+import { FieldOverlay } from "../components/field-overlay";
+import { FighterCard, formatHp } from "../components/fighter-card";
+import { GauntletPanel } from "../components/gauntlet-panel";
+import {
+  IMPACT_MS,
+  launchEffect,
+  type EffectParticle,
+  type ImpactBurst,
+  type ScreenFlash,
+} from "../components/move-effects";
+import type { SpritePose } from "../components/species-themes";
+import { matchupStyle, TYPE_STYLES } from "../components/type-styles";
+import { isRoomCode, ROOM_CODE_LENGTH, TURN_SECONDS } from "../online/protocol";
+import { useOnlineBattle } from "../online/use-online-battle";
+import {
+  clearSavedBattle,
+  loadSavedBattle,
+  saveBattle,
+  type SavedBattle,
+} from "../storage/battle";
+import {
+  loadLeaderboard,
+  recordRun,
+  summarizeRun,
+  type GauntletRecord,
+} from "../storage/gauntlet";
+import { saveMatch } from "../storage/history";
+import { downloadReplay, parseReplayText } from "../storage/replay";
+import { loadSavedTeam } from "../storage/team";
+import { useStorageReady } from "../storage/use-storage-ready";
 
-type Side = "player" | "opponent";
-
-type MoveType =
-  | "Fire"
-  | "Water"
-  | "Grass"
-  | "Electric"
-  | "Ice"
-  | "Psychic"
-  | "Fairy"
-  | "Rock";
-
-interface Move {
-  name: string;
-  type: MoveType;
-  power: number;
-  accuracy: number;
-  description: string;
-}
-
-interface Pokemon {
-  name: string;
-  hp: number;
-  maxHp: number;
-  types: MoveType[];
-  moves: Move[];
-  flair: string;
-}
+type PlayMode = "ai" | "gauntlet" | "hotseat" | "online";
 
-interface BattlePokemon extends Pokemon {
-  energy: number;
-}
+const PLAY_MODES: { mode: PlayMode; label: string }[] = [
+  { mode: "ai", label: "vs AI" },
+  { mode: "gauntlet", label: "Gauntlet" },
+  { mode: "hotseat", label: "Hot-seat" },
+  { mode: "online", label: "Online" },
+];
 
-interface BattleState {
-  player: BattlePokemon;
-  opponent: BattlePokemon;
-  turn: Side;
-  victor?: Side;
-}
+const TRAINER_LABELS: Record<Side, string> = { player: "Trainer A", opponent: "Trainer B" };
 
-interface Projectile {
-  id: string;
-  bundle: string;
-  side: Side;
-  type: MoveType;
-  delay: number;
-  lift: number;
+interface Playback {
+  replay: Replay;
+  cursor: number;
+  playing: boolean;
+  speed: number;
 }
 
-const TYPE_STYLES: Record<
-  MoveType,
-  { from: string; via: string; to: string; text: string; glow: string; icon: string }
-> = {
-  Fire: {
-    from: "from-orange-400",
-    via: "via-rose-500",
-    to: "to-amber-500",
-    text: "text-orange-400",
-    glow: "shadow-[0_0_22px_rgba(255,145,72,0.45)]",
-    icon: "🔥",
-  },
-  Water: {
-    from: "from-sky-300",
-    via: "via-blue-500",
-    to: "to-cyan-500",
-    text: "text-sky-300",
-    glow: "shadow-[0_0_22px_rgba(56,189,248,0.42)]",
-    icon: "💧",
-  },
-  Grass: {
-    from: "from-teal-300",
-    via: "via-emerald-400",
-    to: "to-lime-400",
-    text: "text-emerald-300",
-    glow: "shadow-[0_0_22px_rgba(52,211,153,0.42)]",
-    icon: "🍃",
-  },
-  Electric: {
-    from: "from-amber-300",
-    via: "via-yellow-400",
-    to: "to-orange-400",
-    text: "text-amber-300",
-    glow: "shadow-[0_0_22px_rgba(252,211,77,0.45)]",
-    icon: "⚡️",
-  },
-  Ice: {
-    from: "from-cyan-200",
-    via: "via-sky-200",
-    to: "to-blue-300",
-    text: "text-cyan-200",
-    glow: "shadow-[0_0_22px_rgba(165,243,252,0.45)]",
-    icon: "❄️",
-  },
-  Psychic: {
-    from: "from-fuchsia-400",
-    via: "via-purple-500",
-    to: "to-pink-500",
-    text: "text-fuchsia-300",
-    glow: "shadow-[0_0_22px_rgba(217,70,239,0.42)]",
-    icon: "✨",
-  },
-  Fairy: {
-    from: "from-pink-200",
-    via: "via-rose-300",
-    to: "to-purple-300",
-    text: "text-pink-200",
-    glow: "shadow-[0_0_22px_rgba(244,114,182,0.38)]",
-    icon: "🌸",
-  },
-  Rock: {
-    from: "from-stone-400",
-    via: "via-amber-600",
-    to: "to-zinc-500",
-    text: "text-amber-400",
-    glow: "shadow-[0_0_22px_rgba(120,113,108,0.42)]",
-    icon: "🪨",
-  },
-};
-
-const TYPE_CHART: Partial<Record<MoveType, Partial<Record<MoveType, number>>>> = {
-  Fire: { Grass: 2, Ice: 2, Rock: 0.5, Water: 0.5, Fire: 0.5 },
-  Water: { Fire: 2, Rock: 2, Grass: 0.5, Electric: 0.5 },
-  Grass: { Water: 2, Rock: 2, Fire: 0.5, Grass: 0.5 },
-  Electric: { Water: 2, Grass: 0.5 },
-  Ice: { Grass: 2, Water: 0.5, Fire: 0.5, Rock: 1 },
-  Psychic: { Psychic: 0.5 },
-  Fairy: { Psychic: 1, Fire: 0.5 },
-  Rock: { Fire: 2, Electric: 1, Grass: 1, Water: 1 },
-};
-
-const createPokemon = (base: Omit<Pokemon, "hp">): BattlePokemon => ({
-  ...base,
-  hp: base.maxHp,
-  energy: 100,
-});
-
-const PLAYER_TEAM = createPokemon({
-  name: "Solaris",
-  maxHp: 260,
-  types: ["Fire", "Grass"],
-  moves: [
-    {
-      name: "Flare Cascade",
-      type: "Fire",
-      power: 36,
-      accuracy: 94,
-      description: "A cascading wave of golden flame that engulfs the arena.",
-    },
-    {
-      name: "Solar Bloom",
-      type: "Grass",
-      power: 28,
-      accuracy: 100,
-      description: "Harnesses sunlight to bloom radiant petals that heal slightly.",
-    },
-    {
-      name: "Aurora Pulse",
-      type: "Psychic",
-      power: 32,
-      accuracy: 96,
-      description: "A prismatic pulse that disorients the foe.",
-    },
-    {
-      name: "Stellar Crest",
-      type: "Fairy",
-      power: 30,
-      accuracy: 98,
-      description: "A ribbon of stardust that empowers Solaris’ aura.",
-    },
-  ],
-  flair: "Charismatic Sun Drake",
-});
-
-const OPPONENT_TEAM = createPokemon({
-  name: "Tidal Vanguard",
-  maxHp: 270,
-  types: ["Water", "Electric"],
-  moves: [
-    {
-      name: "Nebula Torrent",
-      type: "Water",
-      power: 34,
-      accuracy: 97,
-      description: "A spiralling column of crystal water.",
-    },
-    {
-      name: "Ion Crash",
-      type: "Electric",
-      power: 35,
-      accuracy: 92,
-      description: "Charged lances of electricity crash into the opponent.",
-    },
-    {
-      name: "Frostbound Wake",
-      type: "Ice",
-      power: 27,
-      accuracy: 99,
-      description: "Icy shards ride atop the wave with a chilling finish.",
-    },
-    {
-      name: "Anchor Bloom",
-      type: "Grass",
-      power: 24,
-      accuracy: 100,
-      description: "Sea flora entangles the foe, siphoning their energy.",
-    },
-  ],
-  flair: "Mariner Leviathan",
-});
-
-const INITIAL_STATE: BattleState = {
-  player: PLAYER_TEAM,
-  opponent: OPPONENT_TEAM,
-  turn: "player",
-};
-
-const bundleProjectiles = (side: Side, type: MoveType): Projectile[] => {
-  const bundle = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
-  return Array.from({ length: 4 }).map((_, index) => ({
-    id: `${bundle}-${index}`,
-    bundle,
-    side,
-    type,
-    delay: index * 90,
-    lift: (Math.random() - 0.5) * 40,
-  }));
-};
-
-const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
-
-const calculateDamage = (
-  move: Move,
-  defender: Pokemon,
-): { damage: number; effectiveness: number; crit: boolean } => {
-  const base = move.power;
-  const variation = 0.85 + Math.random() * 0.2;
-  const crit = Math.random() < 0.1;
-  const multiplier = defender.types.reduce((product, typing) => {
-    const typeMultiplier = TYPE_CHART[move.type]?.[typing as MoveType] ?? 1;
-    return product * typeMultiplier;
-  }, 1);
-
-  const damage = Math.round(base * variation * (crit ? 1.5 : 1) * multiplier);
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
 
-  return { damage: clamp(damage, 12, 90), effectiveness: multiplier, crit };
-};
-
-const effectMessage = (effectiveness: number) => {
-  if (effectiveness > 1.5) return "It’s super effective!";
-  if (effectiveness < 1) return "It’s not very effective…";
-  return null;
-};
+type LogSideFilter = "all" | "view" | "foe";
 
-const formatHp = (hp: number, maxHp: number) => `${hp}/${maxHp}`;
+const LOG_KIND_FILTERS: { label: string; kinds?: LogKind[] }[] = [
+  { label: "All" },
+  { label: "Moves", kinds: ["move", "rest"] },
+  { label: "Effects", kinds: ["effect", "faint"] },
+  { label: "Switches", kinds: ["switch"] },
+  { label: "Turns", kinds: ["turn", "system"] },
+];
 
-const BOUNCE_VARIANTS: Variants = {
-  idle: { y: 0, transition: { duration: 0.4, ease: "easeOut" } },
-  active: {
-    y: [-12, 0, -8],
-    transition: {
-      duration: 1.8,
-      repeat: Infinity,
-      ease: "easeInOut",
-    },
-  },
+const LOG_FLAG_LABELS: Record<LogFlag, string> = {
+  crit: "Crit",
+  super: "Super effective",
+  resisted: "Resisted",
+  immune: "No effect",
+  miss: "Missed",
+  clamped: "Clamped",
 };
 
-const HealthBar = ({ current, max, side }: { current: number; max: number; side: Side }) => {
-  const ratio = current / max;
-  const percent = Math.max(0, Math.min(1, ratio));
-  const hue = Math.round(120 * percent);
-  return (
-    <div className="flex w-full flex-col gap-1">
-      <div className="flex items-center justify-between text-xs font-medium uppercase tracking-[0.2em] text-zinc-500">
-        <span>{side === "player" ? "Trainer A" : "Trainer B"}</span>
-        <span className="font-semibold text-zinc-800">{formatHp(current, max)}</span>
-      </div>
-      <div className="relative h-2.5 overflow-hidden rounded-full bg-zinc-200/60">
-        <motion.div
-          className="h-full rounded-full"
-          style={{
-            background: `linear-gradient(90deg, hsl(${hue}, 90%, 65%), hsl(${hue}, 85%, 55%))`,
-          }}
-          animate={{ width: `${percent * 100}%` }}
-          transition={{ duration: 0.6, ease: "easeOut" }}
-        />
-      </div>
-    </div>
-  );
+// The first battle uses the saved team when there is one, under the default seed and rules.
+const initialReplay = (stored: boolean): Replay => {
+  const team = stored ? loadSavedTeam() : null;
+  return createReplay(DEFAULT_SEED, { ...CONTENT.teams, ...(team ? { player: team } : {}) });
 };
 
-const PokemonBadge = ({ pokemon }: { pokemon: Pokemon }) => (
-  <div className="flex items-center gap-2 text-xs uppercase tracking-[0.3em] text-zinc-500">
-    {pokemon.types.map((type) => (
-      <span
-        key={type}
-        className={clsx(
-          "rounded-full bg-white/70 px-3 py-1 font-semibold backdrop-blur transition-colors",
-          TYPE_STYLES[type].text,
-        )}
-      >
-        {type}
-      </span>
-    ))}
-  </div>
-);
+// A lone choice stays hidden until the other side commits, so there is nothing to animate.
+const isSelectionOnly = (events: BattleEvent[]) =>
+  events.every((event) => event.type === "ActionSelected");
 
-const ProjectileCluster = ({ projectiles }: { projectiles: Projectile[] }) => (
-  <AnimatePresence>
-    {projectiles.map((projectile) => {
-      const style = TYPE_STYLES[projectile.type];
-      const direction = projectile.side === "player" ? 1 : -1;
+const BenchStrip = ({
+  team,
+  onSelect,
+  selectable = () => false,
+}: {
+  team: BattleTeam;
+  onSelect?: (index: number) => void;
+  selectable?: (index: number) => boolean;
+}) => (
+  <div className="flex w-full gap-2">
+    {team.members.map((member, index) => {
+      const percent = Math.max(0, Math.min(1, member.hp / member.maxHp));
+      const enabled = onSelect !== undefined && selectable(index);
       return (
-        <motion.span
-          key={projectile.id}
-          initial={{
-            x: projectile.side === "player" ? "18vw" : "-18vw",
-            y: projectile.lift,
-            scale: 0.6,
-            opacity: 0,
-          }}
-          animate={{
-            x: direction * 50 + "vw",
-            y: projectile.lift * 0.2,
-            scale: [0.6, 1.05, 0.8],
-            opacity: [0, 1, 0],
-            rotate: direction * 14,
-          }}
-          exit={{ opacity: 0 }}
-          transition={{
-            duration: 1.1,
-            delay: projectile.delay / 1000,
-            ease: [0.4, 0, 0.2, 1],
-          }}
+        <button
+          key={`${member.name}-${index}`}
+          onClick={() => onSelect?.(index)}
+          disabled={!enabled}
+          title={`${member.name} ${formatHp(member.hp, member.maxHp)}`}
           className={clsx(
-            "pointer-events-none absolute bottom-[38%] text-4xl drop-shadow-[0_20px_25px_rgba(0,0,0,0.25)]",
-            style.text,
+            "flex min-w-0 flex-1 flex-col gap-1 rounded-[14px] border px-3 py-2 text-left backdrop-blur transition",
+            index === team.active
+              ? "border-white/90 bg-white/90 shadow-[0_8px_20px_rgba(120,125,255,0.18)]"
+              : "border-white/50 bg-white/55",
+            member.hp <= 0 && "opacity-40 grayscale",
+            enabled ? "hover:scale-[1.03] hover:bg-white/90" : "cursor-default",
           )}
         >
-          {style.icon}
-        </motion.span>
+          <span className="truncate text-[10px] font-semibold uppercase tracking-[0.2em] text-zinc-600">
+            {member.name}
+          </span>
+          <span className="relative h-1 overflow-hidden rounded-full bg-zinc-200/70">
+            <span
+              className="absolute inset-y-0 left-0 rounded-full"
+              style={{
+                width: `${percent * 100}%`,
+                background: `hsl(${Math.round(120 * percent)}, 85%, 55%)`,
+              }}
+            />
+          </span>
+        </button>
       );
     })}
-  </AnimatePresence>
+  </div>
 );
 
-const useHitShake = () => {
+const DamagePreviewPanel = ({
+  move,
+  attacker,
+  defender,
+  rules,
+  field,
+}: {
+  move: Move;
+  attacker: BattlePokemon;
+  defender: BattlePokemon;
+  rules: BattleRules;
+  field?: Field;
+}) => {
+  const preview = previewDamage(move, attacker, defender, rules, field);
+  const { minDamage, maxDamage } = rules;
+  const clampNotes = [
+    preview.clampedLow && `rolls below ${minDamage} are raised to ${minDamage}`,
+    preview.clampedHigh && `rolls above ${maxDamage} are capped at ${maxDamage}`,
+  ].filter(Boolean);
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 6 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="flex flex-col gap-3 rounded-[22px] border border-white/60 bg-white/80 px-5 py-4 text-sm text-zinc-600 shadow-[0_14px_30px_rgba(120,125,255,0.14)] backdrop-blur-xl"
+    >
+      <div className="flex items-baseline justify-between gap-3">
+        <p className="font-semibold text-zinc-900">
+          {move.name} → {defender.name}
+        </p>
+        <p className="text-xs font-semibold uppercase tracking-[0.25em] text-zinc-400">
+          {Math.round(preview.hitChance * 100)}% to hit
+        </p>
+      </div>
+      {preview.multiplier === 0 ? (
+        <p className="text-2xl font-semibold text-zinc-900">It doesn’t affect {defender.name}.</p>
+      ) : (
+        <div className="flex flex-wrap gap-4">
+          <span>
+            <span className="text-2xl font-semibold text-zinc-900">
+              {preview.min}–{preview.max}
+            </span>{" "}
+            damage
+          </span>
+          <span className="self-end text-xs">
+            {Math.round(preview.critChance * 100)}% crit for {preview.critMin}–{preview.critMax}
+          </span>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2 text-xs font-semibold">
+        {preview.matchups.map((matchup) => (
+          <span
+            key={matchup.type}
+            className={clsx("rounded-full px-3 py-1", matchupStyle(matchup.multiplier))}
+          >
+            vs {matchup.type} {formatMultiplier(matchup.multiplier)}
+          </span>
+        ))}
+        {preview.matchups.length > 1 && (
+          <span className={clsx("rounded-full px-3 py-1", matchupStyle(preview.multiplier))}>
+            Total {formatMultiplier(preview.multiplier)}
+          </span>
+        )}
+        {preview.stab && (
+          <span className="rounded-full bg-violet-100/90 px-3 py-1 text-violet-600">
+            STAB {formatMultiplier(STAB_MULTIPLIER)}
+          </span>
+        )}
+        {field && preview.fieldMultiplier !== 1 && (
+          <span className={clsx("rounded-full px-3 py-1", matchupStyle(preview.fieldMultiplier))}>
+            {FIELD_LABELS[field.condition]} {formatMultiplier(preview.fieldMultiplier)}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-zinc-400">
+        Damage is clamped to {minDamage}–{maxDamage}
+        {clampNotes.length > 0 ? `; here ${clampNotes.join(" and ")}.` : "."}
+      </p>
+    </motion.div>
+  );
+};
+
+// With reduced motion a hit dims the card briefly instead of shaking it.
+const useHitShake = (reduced: boolean) => {
   const controls = useAnimationControls();
   const trigger = useCallback(() => {
-    controls.start({
-      x: [0, -8, 6, -4, 0],
-      transition: { duration: 0.35, ease: "easeInOut" },
-    });
-  }, [controls]);
+    controls.start(
+      reduced
+        ? { opacity: [1, 0.6, 1], transition: { duration: 0.35, ease: "easeInOut" } }
+        : { x: [0, -8, 6, -4, 0], transition: { duration: 0.35, ease: "easeInOut" } },
+    );
+  }, [controls, reduced]);
   return { controls, trigger };
 };
 
-export default function Home() {
-  const [battle, setBattle] = useState<BattleState>(INITIAL_STATE);
-  const [battleLog, setBattleLog] = useState<string[]>([
-    "The arena hums to life as Solaris faces the Tidal Vanguard.",
-  ]);
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+const Kbd = ({ children }: { children: string }) => (
+  <kbd className="rounded-md border border-zinc-300/80 bg-white/80 px-1.5 py-0.5 font-mono text-[10px] font-semibold text-zinc-500">
+    {children}
+  </kbd>
+);
+
+// Screen readers hear this many of the newest timeline entries as they arrive.
+const ANNOUNCED_ENTRIES = 6;
+
+export default function HomePage() {
+  const stored = useStorageReady();
+  return <Home key={stored ? "stored" : "default"} stored={stored} />;
+}
+
+function Home({ stored }: { stored: boolean }) {
+  const [initial] = useState(() => {
+    const replay = initialReplay(stored);
+    return { replay, state: startReplay(replay) };
+  });
+  const [battle, setBattle] = useState<BattleState>(initial.state);
+  const [battleLog, setBattleLog] = useState<LogEntry[]>(() => startLog(initial.state));
   const [isResolving, setIsResolving] = useState(false);
-  const [projectiles, setProjectiles] = useState<Projectile[]>([]);
+  const [particles, setParticles] = useState<EffectParticle[]>([]);
+  const [impacts, setImpacts] = useState<ImpactBurst[]>([]);
+  const [flashes, setFlashes] = useState<ScreenFlash[]>([]);
+  const [seedInput, setSeedInput] = useState(String(initial.state.seed));
+  const [difficulty, setDifficulty] = useState<Difficulty>("normal");
+  const [playback, setPlayback] = useState<Playback | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [mode, setMode] = useState<PlayMode>("ai");
+  const [roomInput, setRoomInput] = useState("");
+  const [now, setNow] = useState(0);
+  const [queuedTurns, setQueuedTurns] = useState(0);
+  const [holder, setHolder] = useState<Side | null>(null);
+  const [inspected, setInspected] = useState<number | null>(null);
+  const [resumable, setResumable] = useState<SavedBattle | null>(() =>
+    stored ? loadSavedBattle() : null,
+  );
+  const [logSide, setLogSide] = useState<LogSideFilter>("all");
+  const [logKind, setLogKind] = useState("All");
+  const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "failed">("idle");
+  const [poses, setPoses] = useState<Partial<Record<Side, SpritePose>>>({});
+  const [run, setRun] = useState<GauntletRun | null>(null);
+  const [leaderboard, setLeaderboard] = useState<GauntletRecord[]>([]);
+  const [latestRun, setLatestRun] = useState<GauntletRecord | undefined>(undefined);
 
   const battleRef = useRef<BattleState>(battle);
   useEffect(() => {
     battleRef.current = battle;
   }, [battle]);
 
-  const playerShake = useHitShake();
-  const opponentShake = useHitShake();
+  const recordingRef = useRef<Replay>(initial.replay);
+  // The log as it will read once the turn being animated has finished.
+  const settledLogRef = useRef<LogEntry[]>(startLog(initial.state));
+  const replayInput = useRef<HTMLInputElement>(null);
+  const paceRef = useRef(1);
+  useEffect(() => {
+    paceRef.current = playback?.speed ?? 1;
+  }, [playback?.speed]);
+  const onlineQueue = useRef<BattleStep[][]>([]);
+  const viewRef = useRef<Side>("player");
+  // Bumped whenever a different battle is shown, so timers left over from the last one's
+  // animation know to stop.
+  const generationRef = useRef(0);
+
+  const reduceMotion = useReducedMotion() ?? false;
+  const playerShake = useHitShake(reduceMotion);
+  const opponentShake = useHitShake(reduceMotion);
+  const {
+    settings: sound,
+    updateSettings: updateSound,
+    play: playCues,
+    setLoops,
+  } = useBattleAudio(stored);
 
-  const resetBattle = useCallback(() => {
-    const freshState: BattleState = {
-      player: { ...PLAYER_TEAM, hp: PLAYER_TEAM.maxHp },
-      opponent: { ...OPPONENT_TEAM, hp: OPPONENT_TEAM.maxHp },
-      turn: "player",
-    };
-    setBattle(freshState);
-    setBattleLog(["The arena hums to life as Solaris faces the Tidal Vanguard."]);
-    setProjectiles([]);
+  const showBattle = useCallback((fresh: BattleState) => {
+    generationRef.current += 1;
+    battleRef.current = fresh;
+    setBattle(fresh);
+    setBattleLog(startLog(fresh));
+    settledLogRef.current = startLog(fresh);
+    setParticles([]);
+    setImpacts([]);
+    setFlashes([]);
+    setPoses({});
     setIsResolving(false);
+    setSeedInput(String(fresh.seed));
   }, []);
 
-  const resolveTurn = useCallback(
-    (side: Side, move: Move) => {
-      const current = battleRef.current;
-      if (current.victor || isResolving || current[side].hp <= 0) return;
+  const beginRecording = useCallback(
+    (replay: Replay) => {
+      recordingRef.current = replay;
+      setPlayback(null);
+      setReplayError(null);
+      setHolder(null);
+      showBattle(startReplay(replay));
+    },
+    [showBattle],
+  );
 
-      setIsResolving(true);
-      setBattle((prev) => ({ ...prev, turn: side }));
+  const startBattle = useCallback(
+    (seed: number, rules: BattleRules) =>
+      beginRecording(
+        createReplay(
+          seed,
+          { player: loadSavedTeam() ?? CONTENT.teams.player, opponent: CONTENT.teams.opponent },
+          rules,
+        ),
+      ),
+    [beginRecording],
+  );
 
-      const cluster = bundleProjectiles(side, move.type);
-      setProjectiles((prev) => [...prev, ...cluster]);
+  const startRun = useCallback(
+    (seed: number, rules: BattleRules) => {
+      const next = startGauntlet(seed, loadSavedTeam() ?? CONTENT.teams.player, rules);
+      setRun(next);
+      setLatestRun(undefined);
+      setLeaderboard(loadLeaderboard());
+      beginRecording(gauntletReplay(next));
+    },
+    [beginRecording],
+  );
 
-      const defenderSide: Side = side === "player" ? "opponent" : "player";
+  // In the gauntlet, every way of starting over begins a new run.
+  const newBattle = useCallback(
+    (seed: number, rules: BattleRules) =>
+      mode === "gauntlet" ? startRun(seed, rules) : startBattle(seed, rules),
+    [mode, startRun, startBattle],
+  );
 
-      const cleanup = () => {
-        setProjectiles((prev) => prev.filter((p) => p.bundle !== cluster[0]?.bundle));
-      };
+  // A new battle keeps the rules of the current one until another preset is picked.
+  const resetBattle = useCallback(
+    () => newBattle(randomSeed(), battleRef.current.rules),
+    [newBattle],
+  );
 
-      window.setTimeout(() => {
-        const state = battleRef.current;
-        const attacker = state[side];
-        const defender = state[defenderSide];
+  const startFromSeed = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const seed = parseSeed(seedInput);
+      if (seed !== null) newBattle(seed, battleRef.current.rules);
+    },
+    [seedInput, newBattle],
+  );
 
-        if (attacker.hp <= 0 || state.victor) {
-          cleanup();
+  const playSteps = useCallback(
+    (steps: BattleStep[], onFinish?: () => void) => {
+      const onScreen = (side: Side): Side => (side === viewRef.current ? "player" : "opponent");
+      const generation = generationRef.current;
+      const later = (callback: () => void, delay: number) =>
+        window.setTimeout(() => {
+          if (generationRef.current === generation) callback();
+        }, delay);
+      const play = (index: number) => {
+        const step = steps[index];
+        if (!step) {
           setIsResolving(false);
+          onFinish?.();
           return;
         }
+        const { state: next, events } = step;
+        const { animations, timings } = next.rules;
+        const pace = paceRef.current;
+        const cues = eventCues(events, viewRef.current);
+        playCues(cues.launch);
+        const rng = createRng(next.rng);
+        const missed = new Set(
+          events.flatMap((event) => (event.type === "Missed" ? [event.side] : [])),
+        );
+        // Reduced motion hides the move effects but still times the hit by their flight.
+        const launched = events.flatMap((event) =>
+          event.type === "MoveUsed" && animations
+            ? [
+                {
+                  side: event.side,
+                  effect: launchEffect(
+                    event.move,
+                    onScreen(event.side),
+                    rng,
+                    missed.has(event.side),
+                    pace,
+                  ),
+                },
+              ]
+            : [],
+        );
+        const shown = reduceMotion ? [] : launched;
+        setParticles((prev) => [...prev, ...shown.flatMap(({ effect }) => effect.particles)]);
+        // Bursts and flashes only play for moves that actually dealt damage.
+        const landed = shown.filter(({ side }) =>
+          events.some(
+            (event) =>
+              event.type === "Damage" && event.side === opposingSide(side) && !event.cause,
+          ),
+        );
+        // The hit lands when the projectile does, so the burst, HP change and shake share one
+        // moment. Steps without a move effect fall back to the rules' impact timing.
+        const hitAt =
+          launched.length > 0
+            ? Math.max(...launched.map(({ effect }) => effect.arrival))
+            : timings.impact / pace;
+        const posesFor = (type: BattleEvent["type"], pose: SpritePose) =>
+          Object.fromEntries(
+            events.flatMap((event) =>
+              event.type === type && "side" in event ? [[onScreen(event.side), pose]] : [],
+            ),
+          );
+        setPoses(posesFor("MoveUsed", "attack"));
 
-        const { damage, effectiveness, crit } = calculateDamage(move, defender);
-        const nextHp = clamp(defender.hp - damage, 0, defender.maxHp);
+        // Each bundle is cleared once its last particle has finished.
+        shown.forEach(({ effect: { bundle, finish } }) => {
+          later(() => {
+            setParticles((prev) => prev.filter((particle) => particle.bundle !== bundle));
+            setImpacts((prev) => prev.filter((impact) => impact.bundle !== bundle));
+            setFlashes((prev) => prev.filter((flash) => flash.bundle !== bundle));
+          }, Math.max(finish, hitAt + IMPACT_MS));
+        });
 
-        const updated: BattleState = {
-          ...state,
-          [defenderSide]: { ...defender, hp: nextHp },
-          turn: defenderSide,
-        };
+        later(() => {
+          battleRef.current = next;
+          setBattle(next);
+          setPoses(posesFor("Damage", "hit"));
+          setImpacts((prev) => [...prev, ...landed.flatMap(({ effect }) => effect.impact ?? [])]);
+          setFlashes((prev) => [...prev, ...landed.flatMap(({ effect }) => effect.flash ?? [])]);
 
-        if (nextHp <= 0) {
-          updated.victor = side;
-        }
+          events.forEach((event) => {
+            if (event.type !== "Damage" || !animations) return;
+            if (onScreen(event.side) === "player") {
+              playerShake.trigger();
+            } else {
+              opponentShake.trigger();
+            }
+          });
+
+          setBattleLog((prev) => appendLog(prev, events));
+          playCues(cues.impact);
+
+          later(() => {
+            setPoses({});
+            play(index + 1);
+          }, timings.settle / pace);
+        }, hitAt);
+      };
+
+      play(0);
+    },
+    [opponentShake, playerShake, playCues, reduceMotion],
+  );
 
-        battleRef.current = updated;
-        setBattle(updated);
+  // Saves the settled result of each live action, so a reload mid-animation resumes after it.
+  const autosave = useCallback(
+    (state: BattleState) => {
+      // Gauntlet fights depend on the run around them, which isn't saved.
+      if (mode === "online" || mode === "gauntlet") return;
+      if (state.victor) {
+        clearSavedBattle();
+      } else {
+        saveBattle({
+          mode,
+          difficulty,
+          replay: recordingRef.current,
+          state,
+          log: settledLogRef.current,
+        });
+      }
+      setResumable(null);
+    },
+    [mode, difficulty],
+  );
 
-        if (defenderSide === "player") {
-          playerShake.trigger();
-        } else {
-          opponentShake.trigger();
+  // Each gauntlet fight is folded into the run once it has played out; a loss ends the run
+  // and ranks it. A fight abandoned for a new run mid-animation is dropped.
+  const finishGauntletFight = useCallback(
+    (state: BattleState) => {
+      if (mode !== "gauntlet" || !run) return undefined;
+      const replay = recordingRef.current;
+      return () => {
+        if (recordingRef.current !== replay) return;
+        const next = finishFight(run, state);
+        setRun(next);
+        if (next.over) {
+          const record = summarizeRun(next);
+          setLatestRun(record);
+          setLeaderboard(recordRun(record));
         }
+      };
+    },
+    [mode, run],
+  );
 
-        const messages = [
-          `${attacker.name} used ${move.name}!`,
-          crit ? "A critical hit!" : null,
-          effectMessage(effectiveness),
-          nextHp <= 0 ? `${defender.name} fainted.` : null,
-        ].filter(Boolean) as string[];
+  const resolveTurn = useCallback(
+    (action: BattleAction, source: "live" | "replay" = "live") => {
+      if (isResolving) return null;
 
-        setBattleLog((prev) => [...messages, ...prev].slice(0, 8));
+      const result = applyAction(battleRef.current, action);
+      if (result.events.length === 0) return null;
+      const onFinish =
+        source === "live" && result.state.victor ? finishGauntletFight(result.state) : undefined;
+      if (source === "live") {
+        recordingRef.current = recordAction(recordingRef.current, action);
+        settledLogRef.current = result.steps.reduce(
+          (log, step) => appendLog(log, step.events),
+          settledLogRef.current,
+        );
+        autosave(result.state);
+      }
 
-        window.setTimeout(() => {
-          cleanup();
-          setIsResolving(false);
-        }, 300);
-      }, 620);
+      if (isSelectionOnly(result.events)) {
+        battleRef.current = result.state;
+        setBattle(result.state);
+        onFinish?.();
+      } else {
+        setIsResolving(true);
+        playSteps(result.steps, onFinish);
+      }
+      return result;
     },
-    [isResolving, opponentShake, playerShake],
+    [isResolving, playSteps, autosave, finishGauntletFight],
   );
 
+  const online = useOnlineBattle({
+    onSync: (state) => {
+      onlineQueue.current = [];
+      showBattle(state);
+    },
+    onTurn: (steps) => {
+      onlineQueue.current.push(steps);
+      setQueuedTurns((count) => count + 1);
+    },
+    onEnd: (victor, reason, replay) => {
+      recordingRef.current = replay;
+      if (reason !== "forfeit") return;
+      const loser = online.session.names?.[opposingSide(victor)] ?? "Your opponent";
+      battleRef.current = { ...battleRef.current, victor };
+      setBattle(battleRef.current);
+      setBattleLog((prev) => appendMessage(prev, `${loser} left the battle.`));
+    },
+  });
+  const { session } = online;
+  const isOnline = mode === "online";
+  const onlinePlaying = isOnline && session.status === "playing";
+
+  const viewSide: Side = isOnline ? (session.side ?? "player") : "player";
+  const foeSide = opposingSide(viewSide);
+  useEffect(() => {
+    viewRef.current = viewSide;
+  }, [viewSide]);
+
+  // Server turns can arrive mid-animation; play them back in order.
   useEffect(() => {
-    if (battle.turn === "opponent" && !battle.victor && !isResolving) {
+    if (isResolving || onlineQueue.current.length === 0) return;
+    const steps = onlineQueue.current.shift() as BattleStep[];
+    setIsResolving(true);
+    playSteps(steps);
+  }, [isResolving, queuedTurns, playSteps]);
+
+  useEffect(() => {
+    if (!session.deadline) return undefined;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [session.deadline]);
+
+  const hasChosen = (side: Side) =>
+    isOnline ? session.ready.includes(side) : battle.choices[side] !== undefined;
+  const sideToAct = (side: Side) =>
+    (!isOnline || onlinePlaying) && needsAction(battle, side) && !hasChosen(side);
+  const opponentToAct = sideToAct(foeSide);
+
+  const act = (action: BattleAction) => {
+    if (!isOnline) {
+      resolveTurn(action);
+    } else if (onlinePlaying && !isResolving) {
+      online.submit(action);
+    }
+  };
+
+  const choosePreset = (next: RulesPreset) => {
+    if (rulesPreset(battle.rules) === next) return;
+    const { field } = battle.rules;
+    newBattle(randomSeed(), { ...RULES_PRESETS[next].rules, ...(field ? { field } : {}) });
+  };
+
+  const chooseField = (condition?: FieldCondition) => {
+    if (battle.rules.field?.condition === condition) return;
+    newBattle(randomSeed(), {
+      ...battle.rules,
+      field: condition ? { condition, turns: DEFAULT_FIELD_TURNS } : undefined,
+    });
+  };
+
+  const switchMode = (next: PlayMode) => {
+    if (next === mode) return;
+    if (isOnline) online.leave();
+    setMode(next);
+    if (next === "gauntlet") {
+      startRun(randomSeed(), battleRef.current.rules);
+    } else {
+      setRun(null);
+      startBattle(randomSeed(), battleRef.current.rules);
+    }
+  };
+
+  const pickReward = (reward: GauntletReward) => {
+    if (!run) return;
+    const next = applyReward(run, reward);
+    setRun(next);
+    beginRecording(gauntletReplay(next));
+  };
+
+  const joinOnline = (room?: string) => {
+    const team = loadSavedTeam() ?? CONTENT.teams.player;
+    online.join({ room, name: team.name, team });
+  };
+
+  // Gauntlet opponents get smarter as the run goes on.
+  const aiLevel = mode === "gauntlet" && run ? gauntletDifficulty(run.stage) : difficulty;
+
+  useEffect(() => {
+    if (opponentToAct && !isResolving && !playback && (mode === "ai" || mode === "gauntlet")) {
       const timeout = window.setTimeout(() => {
-        const move =
-          battleRef.current.opponent.moves[
-            Math.floor(Math.random() * battleRef.current.opponent.moves.length)
-          ];
-        resolveTurn("opponent", move);
-      }, 900);
+        resolveTurn(AI_LEVELS[aiLevel].chooseAction(battleRef.current, "opponent"));
+      }, battle.rules.timings.aiDelay);
 
       return () => window.clearTimeout(timeout);
     }
     return undefined;
-  }, [battle.turn, battle.victor, isResolving, resolveTurn]);
+  }, [
+    opponentToAct,
+    isResolving,
+    resolveTurn,
+    aiLevel,
+    playback,
+    mode,
+    battle.rules.timings.aiDelay,
+  ]);
+
+  // Finished live battles go to the match history; replays being watched don't count.
+  const archivedRef = useRef<Replay | null>(null);
+  useEffect(() => {
+    const replay = recordingRef.current;
+    if (!battle.victor || playback || archivedRef.current === replay) return;
+    archivedRef.current = replay;
+    const opponent =
+      mode === "online"
+        ? (session.names?.[foeSide] ?? "Online opponent")
+        : mode === "hotseat"
+          ? "Hot-seat rival"
+          : mode === "gauntlet"
+            ? (replay.teams.opponent.name ?? "Gauntlet")
+            : `${AI_LEVELS[difficulty].label} AI`;
+    // History is a nice-to-have; a browser without IndexedDB just doesn't keep it.
+    saveMatch(summarizeMatch(replay, viewSide, battle.victor, opponent)).catch(() => undefined);
+  }, [battle.victor, playback, mode, session.names, foeSide, viewSide, difficulty]);
+
+  const resumeBattle = () => {
+    if (!resumable) return;
+    setMode(resumable.mode);
+    setRun(null);
+    setDifficulty(resumable.difficulty);
+    recordingRef.current = resumable.replay;
+    setPlayback(null);
+    setReplayError(null);
+    setHolder(null);
+    showBattle(resumable.state);
+    settledLogRef.current = resumable.log;
+    setBattleLog(resumable.log);
+    setResumable(null);
+  };
+
+  const copyTranscript = async () => {
+    try {
+      await navigator.clipboard.writeText(formatTranscript(battleLog));
+      setCopyStatus("copied");
+    } catch {
+      setCopyStatus("failed");
+    }
+    window.setTimeout(() => setCopyStatus("idle"), 1500);
+  };
+
+  const discardSavedBattle = () => {
+    clearSavedBattle();
+    setResumable(null);
+  };
+
+  const stepReplay = useCallback(() => {
+    if (!playback || isResolving) return;
+    const { actions } = playback.replay;
+    let cursor = playback.cursor;
+    while (cursor < actions.length) {
+      const result = resolveTurn(actions[cursor], "replay");
+      cursor += 1;
+      if (!result || !isSelectionOnly(result.events)) break;
+    }
+    setPlayback({ ...playback, cursor, playing: playback.playing && cursor < actions.length });
+  }, [playback, isResolving, resolveTurn]);
+
+  useEffect(() => {
+    if (!playback?.playing || isResolving) return undefined;
+    const timeout = window.setTimeout(stepReplay, 400 / playback.speed);
+    return () => window.clearTimeout(timeout);
+  }, [playback, isResolving, stepReplay]);
+
+  const watchReplay = useCallback(
+    (replay: Replay) => {
+      setReplayError(null);
+      setPlayback({ replay, cursor: 0, playing: true, speed: playback?.speed ?? 1 });
+      showBattle(startReplay(replay));
+    },
+    [playback?.speed, showBattle],
+  );
+
+  const togglePlayback = () => {
+    if (!playback) return;
+    if (playback.cursor >= playback.replay.actions.length) {
+      watchReplay(playback.replay);
+    } else {
+      setPlayback({ ...playback, playing: !playback.playing });
+    }
+  };
+
+  const currentReplay = (): Replay => {
+    const replay = playback?.replay ?? recordingRef.current;
+    return battle.victor && !playback ? { ...replay, victor: battle.victor } : replay;
+  };
 
-  const playerDisabled = battle.turn !== "player" || battle.victor !== undefined || isResolving;
+  const handleReplayFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      watchReplay(parseReplayText(await file.text(), file.name));
+    } catch (error) {
+      setReplayError(
+        error instanceof ContentError ? error.issues.join(" ") : `Couldn’t load ${file.name}.`,
+      );
+    }
+  };
+
+  const player = activePokemon(battle, viewSide);
+  const opponent = activePokemon(battle, foeSide);
+  const lowHp = !battle.victor && player.hp > 0 && player.hp / player.maxHp < LOW_HP_RATIO;
+
+  useEffect(() => {
+    setLoops({ music: !battle.victor, warning: lowHp });
+  }, [battle.victor, lowHp, setLoops]);
+  const playerToAct = sideToAct(viewSide);
+  // In hot-seat play the palette belongs to whichever side still owes a decision.
+  const isHotseat = mode === "hotseat";
+  const commandSide = isHotseat ? (SIDES.find(sideToAct) ?? viewSide) : viewSide;
+
+  const logSideFilters: { filter: LogSideFilter; label: string }[] = [
+    { filter: "all", label: "Both" },
+    { filter: "view", label: isHotseat ? TRAINER_LABELS[viewSide] : "You" },
+    { filter: "foe", label: isHotseat ? TRAINER_LABELS[foeSide] : "Foe" },
+  ];
+  const logKinds = LOG_KIND_FILTERS.find((entry) => entry.label === logKind)?.kinds;
+  const visibleLog = battleLog
+    .filter(
+      (entry) =>
+        (logSide === "all" || entry.side === (logSide === "view" ? viewSide : foeSide)) &&
+        (!logKinds || logKinds.includes(entry.kind)),
+    )
+    .reverse();
+  const commander = activePokemon(battle, commandSide);
+  const awaitingHandoff =
+    isHotseat && !isResolving && !playback && sideToAct(commandSide) && holder !== commandSide;
+  const commandMustSwitch = battle.pendingSwitches.includes(commandSide);
+  const otherSide = opposingSide(commandSide);
+  let paletteHint =
+    "Both sides choose at once. Switches go first, then priority moves, then the faster Pokémon.";
+  if (commandMustSwitch) {
+    paletteHint = `${commander.name} can’t battle on — pick a replacement from your bench.`;
+  } else if (hasChosen(commandSide)) {
+    paletteHint = `Locked in — waiting for ${activePokemon(battle, otherSide).name} to choose.`;
+  } else if (isHotseat && hasChosen(otherSide)) {
+    paletteHint = `${TRAINER_LABELS[otherSide]} is locked in. ${TRAINER_LABELS[commandSide]}, your move.`;
+  }
+  // `now` only ticks once a second, so a fresh deadline is capped at a full turn until it does.
+  const secondsLeft = session.deadline
+    ? clamp(Math.ceil((session.deadline - now) / 1000), 0, TURN_SECONDS)
+    : null;
+  const commandDisabled =
+    !sideToAct(commandSide) ||
+    commandMustSwitch ||
+    isResolving ||
+    playback !== null ||
+    awaitingHandoff;
+  const commandCanSwitch = sideToAct(commandSide) && !isResolving && !playback && !awaitingHandoff;
+
+  // Starting over takes Shift+R, and never throws away a replay being watched or a live run.
+  const resetByKey = !isOnline && !playback && !(run && !run.over) && !isResolving;
+
+  // Subscribes on every render so the shortcuts always act on the current palette.
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.repeat || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTyping(event.target)) return;
+      const digit = /^Digit([1-9])$/.exec(event.code);
+      const index = digit ? Number(digit[1]) - 1 : -1;
+      const move = commander.moves[index];
+      if (digit && event.shiftKey) {
+        if (!commandCanSwitch || !canSwitchTo(battle, commandSide, index)) return;
+        act({ type: "switch", side: commandSide, index });
+      } else if (digit) {
+        if (commandDisabled || !move || !canAfford(commander, move)) return;
+        act({ type: "move", side: commandSide, moveIndex: index });
+      } else if (event.key.toLowerCase() === "c") {
+        if (commandDisabled) return;
+        act({ type: "rest", side: commandSide });
+      } else if (event.key.toLowerCase() === "r" && event.shiftKey) {
+        if (!resetByKey) return;
+        resetBattle();
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  });
 
-  const projectileBundles = useMemo(() => projectiles, [projectiles]);
+  const still = reduceMotion || !battle.rules.animations;
+  const lastFight = run?.fights[run.fights.length - 1];
+  const rewardOffers =
+    run && !run.over && battle.victor === "player" && lastFight?.seed === battle.seed
+      ? rewardChoices(run)
+      : [];
+  const activePreset = rulesPreset(battle.rules);
 
   return (
-    <div className="relative flex min-h-screen flex-col items-center justify-center px-6 py-16 text-zinc-900">
-      <div className="absolute inset-0 bg-[radial-gradient(circle_at_top,_rgba(255,255,255,0.92),_rgba(212,224,255,0.75),_rgba(228,236,255,0.55)_60%,_rgba(233,242,255,0.4)_80%,_rgba(244,247,255,0.3))]" />
-      <div className="absolute inset-0 bg-[linear-gradient(120deg,rgba(255,255,255,0.4),rgba(242,248,255,0.3)_35%,rgba(198,211,255,0.25)_70%,rgba(244,241,255,0.3))]" />
-      <main className="relative flex w-full max-w-6xl flex-col gap-8 rounded-[48px] border border-white/40 bg-white/65 p-10 shadow-[0_45px_90px_rgba(84,104,255,0.18)] backdrop-blur-[28px]">
-        <header className="flex items-center justify-between">
-          <div>
-            <p className="text-xs uppercase tracking-[0.4em] text-zinc-500">Atelier Battle Lab</p>
-            <h1 className="mt-2 text-4xl font-semibold text-zinc-900">
-              Solaris vs. Tidal Vanguard
-            </h1>
-          </div>
-          <button
-            onClick={resetBattle}
-            className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90"
-          >
-            Reset Battle
-          </button>
-        </header>
-
-        <section className="relative flex h-[520px] w-full overflow-hidden rounded-[36px] border border-white/50 bg-[radial-gradient(ellipse_at_top,_rgba(255,255,255,0.9),_rgba(214,226,255,0.65),_rgba(184,206,255,0.55)_55%,_rgba(164,198,255,0.4)_80%,rgba(142,176,255,0.35))] px-10 py-12 shadow-[inset_0_20px_40px_rgba(255,255,255,0.4)]">
-          <div className="pointer-events-none absolute inset-0">
-            <div className="absolute left-1/2 top-10 h-24 w-24 -translate-x-1/2 rounded-full bg-white/20 blur-3xl" />
-            <div className="absolute inset-x-10 bottom-16 h-[220px] rounded-[40px] bg-gradient-to-b from-white/30 via-white/12 to-transparent blur-xl" />
-            <div className="absolute left-1/2 top-0 h-full w-px -translate-x-1/2 bg-gradient-to-b from-transparent via-white/40 to-transparent" />
-          </div>
-
-          <ProjectileCluster projectiles={projectileBundles} />
-
-          <div className="relative flex h-full w-full items-end justify-between">
-            <motion.div
-              animate={playerShake.controls}
-              className="relative flex w-[44%] flex-col gap-6 rounded-[28px] border border-white/60 bg-white/70 p-6 shadow-[0_25px_55px_rgba(120,125,255,0.18)] backdrop-blur-2xl"
-            >
-              <motion.div
-                className="relative flex flex-col items-start gap-3"
-                variants={BOUNCE_VARIANTS}
-                animate={battle.turn === "player" && !battle.victor ? "active" : "idle"}
+    <MotionConfig reducedMotion="user">
+      <div className="relative flex min-h-screen flex-col items-center justify-center px-6 py-16 text-zinc-900">
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_top,_rgba(255,255,255,0.92),_rgba(212,224,255,0.75),_rgba(228,236,255,0.55)_60%,_rgba(233,242,255,0.4)_80%,_rgba(244,247,255,0.3))]" />
+        <div className="absolute inset-0 bg-[linear-gradient(120deg,rgba(255,255,255,0.4),rgba(242,248,255,0.3)_35%,rgba(198,211,255,0.25)_70%,rgba(244,241,255,0.3))]" />
+        <main className="relative flex w-full max-w-6xl flex-col gap-8 rounded-[48px] border border-white/40 bg-white/65 p-10 shadow-[0_45px_90px_rgba(84,104,255,0.18)] backdrop-blur-[28px]">
+          <header className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <p className="text-xs uppercase tracking-[0.4em] text-zinc-500">Atelier Battle Lab</p>
+              <h1 className="mt-2 text-4xl font-semibold text-zinc-900">
+                {player.name} vs. {opponent.name}
+              </h1>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <Link
+                href="/team-builder"
+                className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90"
               >
-                <div className="absolute -top-12 left-1/2 h-32 w-32 -translate-x-1/2 rounded-full bg-gradient-to-br from-white/40 via-white/10 to-white/40 blur-xl" />
-                <div className="relative flex h-36 w-full items-center justify-center rounded-[24px] border border-white/60 bg-gradient-to-br from-amber-50/90 via-white/80 to-white/90 shadow-[0_18px_45px_rgba(255,186,142,0.22)]">
-                  <div className="absolute -top-10 h-32 w-32 rounded-full bg-gradient-to-br from-orange-100/70 via-amber-200/80 to-rose-200/60 blur-2xl" />
-                  <span className="text-6xl drop-shadow-[0_18px_35px_rgba(255,176,89,0.45)]">
-                    🔆
-                  </span>
-                </div>
-              </motion.div>
-              <div className="flex flex-col gap-2">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-xs uppercase tracking-[0.4em] text-zinc-500">Player</p>
-                    <h2 className="text-2xl font-semibold text-zinc-900">{battle.player.name}</h2>
+                Team Builder
+              </Link>
+              <Link
+                href="/type-chart"
+                className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90"
+              >
+                Type Chart
+              </Link>
+              <Link
+                href="/stats"
+                className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90"
+              >
+                Stats
+              </Link>
+              <div
+                role="radiogroup"
+                aria-label="Play mode"
+                className="flex items-center gap-1 rounded-full border border-white/60 bg-white/70 p-1 shadow-[0_10px_25px_rgba(15,23,42,0.08)]"
+              >
+                {PLAY_MODES.map((entry) => (
+                  <button
+                    key={entry.mode}
+                    role="radio"
+                    aria-checked={mode === entry.mode}
+                    disabled={isResolving}
+                    onClick={() => switchMode(entry.mode)}
+                    className={clsx(
+                      "rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] transition disabled:cursor-not-allowed disabled:opacity-40",
+                      mode === entry.mode
+                        ? "bg-zinc-900 text-white"
+                        : "text-zinc-500 hover:bg-white/90",
+                    )}
+                  >
+                    {entry.label}
+                  </button>
+                ))}
+              </div>
+              {!isOnline && (
+                <>
+                  {mode === "ai" && (
+                    <div
+                      role="radiogroup"
+                      aria-label="Opponent difficulty"
+                      className="flex items-center gap-1 rounded-full border border-white/60 bg-white/70 p-1 pl-4 shadow-[0_10px_25px_rgba(15,23,42,0.08)]"
+                    >
+                      <span className="pr-2 text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500">
+                        AI
+                      </span>
+                      {DIFFICULTIES.map((level) => (
+                        <button
+                          key={level}
+                          role="radio"
+                          aria-checked={difficulty === level}
+                          title={AI_LEVELS[level].description}
+                          onClick={() => setDifficulty(level)}
+                          className={clsx(
+                            "rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] transition",
+                            difficulty === level
+                              ? "bg-zinc-900 text-white"
+                              : "text-zinc-500 hover:bg-white/90",
+                          )}
+                        >
+                          {AI_LEVELS[level].label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div
+                    role="radiogroup"
+                    aria-label="Battle rules"
+                    className="flex items-center gap-1 rounded-full border border-white/60 bg-white/70 p-1 pl-4 shadow-[0_10px_25px_rgba(15,23,42,0.08)]"
+                  >
+                    <span className="pr-2 text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500">
+                      Rules
+                    </span>
+                    {RULES_PRESET_IDS.map((preset) => (
+                      <button
+                        key={preset}
+                        role="radio"
+                        aria-checked={activePreset === preset}
+                        title={`${RULES_PRESETS[preset].description} Starts a new battle.`}
+                        disabled={isResolving}
+                        onClick={() => choosePreset(preset)}
+                        className={clsx(
+                          "rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] transition disabled:cursor-not-allowed disabled:opacity-40",
+                          activePreset === preset
+                            ? "bg-zinc-900 text-white"
+                            : "text-zinc-500 hover:bg-white/90",
+                        )}
+                      >
+                        {RULES_PRESETS[preset].rules.name}
+                      </button>
+                    ))}
+                  </div>
+                  <div
+                    role="radiogroup"
+                    aria-label="Starting field"
+                    className="flex items-center gap-1 rounded-full border border-white/60 bg-white/70 p-1 pl-4 shadow-[0_10px_25px_rgba(15,23,42,0.08)]"
+                  >
+                    <span className="pr-2 text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500">
+                      Field
+                    </span>
+                    {[undefined, ...FIELD_CONDITIONS].map((condition) => (
+                      <button
+                        key={condition ?? "none"}
+                        role="radio"
+                        aria-checked={battle.rules.field?.condition === condition}
+                        title={`${
+                          condition
+                            ? `${FIELD_LABELS[condition]} for the first ${DEFAULT_FIELD_TURNS} turns.`
+                            : "No field at the start."
+                        } Starts a new battle.`}
+                        disabled={isResolving}
+                        onClick={() => chooseField(condition)}
+                        className={clsx(
+                          "rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] transition disabled:cursor-not-allowed disabled:opacity-40",
+                          battle.rules.field?.condition === condition
+                            ? "bg-zinc-900 text-white"
+                            : "text-zinc-500 hover:bg-white/90",
+                        )}
+                      >
+                        {condition ? FIELD_LABELS[condition] : "None"}
+                      </button>
+                    ))}
                   </div>
-                  <span className="rounded-full bg-white/80 px-4 py-1 text-xs font-semibold uppercase tracking-[0.25em] text-zinc-500">
-                    {battle.player.flair}
+                  <form
+                    onSubmit={startFromSeed}
+                    className="flex items-center gap-2 rounded-full border border-white/60 bg-white/70 py-1 pl-4 pr-1 shadow-[0_10px_25px_rgba(15,23,42,0.08)]"
+                  >
+                    <label
+                      htmlFor="battle-seed"
+                      className="text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500"
+                    >
+                      Seed
+                    </label>
+                    <input
+                      id="battle-seed"
+                      value={seedInput}
+                      onChange={(event) => setSeedInput(event.target.value)}
+                      inputMode="numeric"
+                      spellCheck={false}
+                      className="w-28 bg-transparent font-mono text-sm font-semibold text-zinc-700 outline-none"
+                    />
+                    <button
+                      type="submit"
+                      disabled={isResolving || parseSeed(seedInput) === null}
+                      className="rounded-full bg-white/90 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-zinc-600 transition hover:bg-white disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      Start
+                    </button>
+                  </form>
+                  <button
+                    onClick={resetBattle}
+                    disabled={isResolving}
+                    aria-keyshortcuts={resetByKey ? "Shift+R" : undefined}
+                    className="flex items-center gap-2 rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90 disabled:cursor-not-allowed disabled:opacity-40"
+                  >
+                    {mode === "gauntlet" ? "New Run" : "Reset Battle"}
+                    {resetByKey && (
+                      <span>
+                        <Kbd>Shift</Kbd>+<Kbd>R</Kbd>
+                      </span>
+                    )}
+                  </button>
+                </>
+              )}
+              <div
+                role="group"
+                aria-label="Sound"
+                className="flex items-center gap-2 rounded-full border border-white/60 bg-white/70 py-1 pl-1 pr-4 shadow-[0_10px_25px_rgba(15,23,42,0.08)]"
+              >
+                <button
+                  onClick={() => updateSound({ muted: !sound.muted })}
+                  aria-pressed={sound.muted}
+                  aria-label={sound.muted ? "Unmute" : "Mute"}
+                  className="rounded-full bg-white/90 px-3 py-1 text-sm transition hover:bg-white"
+                >
+                  {sound.muted ? "🔇" : "🔊"}
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={sound.volume}
+                  aria-label="Volume"
+                  onChange={(event) =>
+                    updateSound({ volume: Number(event.target.value), muted: false })
+                  }
+                  className={clsx("w-24 accent-zinc-900", sound.muted && "opacity-40")}
+                />
+              </div>
+            </div>
+          </header>
+
+          {isOnline && (
+            <div className="flex flex-wrap items-center justify-between gap-4 rounded-[28px] border border-white/60 bg-white/70 px-6 py-4 shadow-[0_18px_40px_rgba(100,140,255,0.14)] backdrop-blur-2xl">
+              <div className="flex flex-col gap-1">
+                <p className="text-[10px] font-semibold uppercase tracking-[0.35em] text-zinc-400">
+                  Online{session.room ? ` · Room ${session.room}` : ""}
+                </p>
+                <p className="text-sm font-semibold text-zinc-700">
+                  {session.status === "idle" &&
+                    "Quick match with whoever is waiting, or enter a room code to play a friend."}
+                  {session.status === "connecting" && "Connecting to the battle server…"}
+                  {session.status === "waiting" &&
+                    `Waiting for a challenger — share room code ${session.room}.`}
+                  {session.status === "playing" &&
+                    `${session.names?.[viewSide] ?? "You"} vs. ${session.names?.[foeSide] ?? "Opponent"}`}
+                  {session.status === "reconnecting" && "Connection lost — reconnecting…"}
+                  {session.status === "ended" && "Battle over. Export the replay or find another match."}
+                </p>
+                {session.status === "playing" && !session.foeConnected && (
+                  <p className="text-xs font-medium text-amber-500">
+                    Your opponent dropped out. They have a minute to come back before forfeiting.
+                  </p>
+                )}
+                {session.error && (
+                  <p className="text-xs font-medium text-rose-500">
+                    {session.error}
+                    {session.issues && ` ${session.issues.join(" ")}`}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {secondsLeft !== null && session.status === "playing" && (
+                  <span
+                    className={clsx(
+                      "rounded-full bg-white/80 px-3 py-1 font-mono text-xs font-semibold",
+                      secondsLeft <= 10 ? "text-rose-500" : "text-zinc-500",
+                    )}
+                  >
+                    ⏱ {secondsLeft}s
                   </span>
+                )}
+                {session.status === "idle" || session.status === "ended" ? (
+                  <>
+                    <button
+                      onClick={() => joinOnline()}
+                      className="rounded-full bg-zinc-900 px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.25em] text-white transition hover:scale-[1.02]"
+                    >
+                      Quick Match
+                    </button>
+                    <form
+                      onSubmit={(event) => {
+                        event.preventDefault();
+                        if (isRoomCode(roomInput)) joinOnline(roomInput);
+                      }}
+                      className="flex items-center gap-2 rounded-full border border-white/60 bg-white/80 py-1 pl-4 pr-1"
+                    >
+                      <input
+                        value={roomInput}
+                        onChange={(event) => setRoomInput(event.target.value.toUpperCase())}
+                        placeholder="ROOM"
+                        aria-label="Room code"
+                        maxLength={ROOM_CODE_LENGTH}
+                        className="w-20 bg-transparent font-mono text-sm font-semibold text-zinc-700 outline-none"
+                      />
+                      <button
+                        type="submit"
+                        disabled={!isRoomCode(roomInput)}
+                        className="rounded-full bg-white/90 px-3 py-1 text-xs font-semibold uppercase tracking-[0.2em] text-zinc-600 transition hover:bg-white disabled:cursor-not-allowed disabled:opacity-40"
+                      >
+                        Join
+                      </button>
+                    </form>
+                  </>
+                ) : (
+                  <button
+                    onClick={online.leave}
+                    className="rounded-full border border-white/60 bg-white/80 px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.25em] text-rose-400 transition hover:bg-white"
+                  >
+                    {session.status === "playing" || session.status === "reconnecting"
+                      ? "Forfeit"
+                      : "Cancel"}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {resumable && !isOnline && !playback && (
+            <div className="flex flex-wrap items-center justify-between gap-4 rounded-[28px] border border-white/60 bg-white/70 px-6 py-4 shadow-[0_18px_40px_rgba(100,140,255,0.14)] backdrop-blur-2xl">
+              <div>
+                <p className="text-[10px] font-semibold uppercase tracking-[0.35em] text-zinc-400">
+                  Unfinished battle · Seed {resumable.replay.seed} · {resumable.replay.rules.name}
+                </p>
+                <p className="text-sm font-semibold text-zinc-700">
+                  {activePokemon(resumable.state, "player").name} vs{" "}
+                  {activePokemon(resumable.state, "opponent").name}, turn {resumable.state.turn}
+                  {resumable.mode === "hotseat"
+                    ? " · Hot-seat"
+                    : ` · ${AI_LEVELS[resumable.difficulty].label} AI`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={resumeBattle}
+                  className="rounded-full bg-zinc-900 px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.25em] text-white transition hover:scale-[1.02]"
+                >
+                  Resume Battle
+                </button>
+                <button
+                  onClick={discardSavedBattle}
+                  className="rounded-full border border-white/60 bg-white/80 px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.25em] text-zinc-600 transition hover:bg-white"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+
+          {replayError && (
+            <p className="rounded-[22px] border border-rose-200/80 bg-rose-50/80 px-5 py-3 text-sm text-rose-600">
+              {replayError}
+            </p>
+          )}
+
+          {playback && (
+            <div className="flex flex-wrap items-center justify-between gap-4 rounded-[28px] border border-white/60 bg-white/70 px-6 py-4 shadow-[0_18px_40px_rgba(100,140,255,0.14)] backdrop-blur-2xl">
+              <div className="flex flex-col gap-2">
+                <p className="text-[10px] font-semibold uppercase tracking-[0.35em] text-zinc-400">
+                  Replay · Seed {playback.replay.seed} · {playback.replay.rules.name}
+                </p>
+                <div className="h-1.5 w-56 overflow-hidden rounded-full bg-white/80">
+                  <motion.div
+                    className="h-full rounded-full bg-gradient-to-r from-violet-300 via-sky-300 to-emerald-300"
+                    animate={{
+                      width: `${(playback.cursor / Math.max(1, playback.replay.actions.length)) * 100}%`,
+                    }}
+                  />
                 </div>
-                <PokemonBadge pokemon={battle.player} />
+                <p className="text-xs font-semibold text-zinc-500">
+                  Action {playback.cursor} of {playback.replay.actions.length}
+                </p>
               </div>
-              <HealthBar current={battle.player.hp} max={battle.player.maxHp} side="player" />
-            </motion.div>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={togglePlayback}
+                  className="rounded-full bg-zinc-900 px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.25em] text-white transition hover:scale-[1.02]"
+                >
+                  {playback.cursor >= playback.replay.actions.length
+                    ? "Replay Again"
+                    : playback.playing
+                      ? "Pause"
+                      : "Play"}
+                </button>
+                <button
+                  onClick={stepReplay}
+                  disabled={
+                    playback.playing ||
+                    isResolving ||
+                    playback.cursor >= playback.replay.actions.length
+                  }
+                  className="rounded-full border border-white/60 bg-white/80 px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.25em] text-zinc-600 transition hover:bg-white disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Step
+                </button>
+                <div className="flex items-center gap-1 rounded-full border border-white/60 bg-white/70 p-1">
+                  {PLAYBACK_SPEEDS.map((speed) => (
+                    <button
+                      key={speed}
+                      onClick={() => setPlayback({ ...playback, speed })}
+                      className={clsx(
+                        "rounded-full px-2.5 py-1 text-xs font-semibold transition",
+                        playback.speed === speed
+                          ? "bg-zinc-900 text-white"
+                          : "text-zinc-500 hover:bg-white/90",
+                      )}
+                    >
+                      {speed}×
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={resetBattle}
+                  className="rounded-full border border-white/60 bg-white/80 px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.25em] text-rose-400 transition hover:bg-white"
+                >
+                  Exit Replay
+                </button>
+              </div>
+            </div>
+          )}
+
+          <section className="relative flex h-[580px] w-full overflow-hidden rounded-[36px] border border-white/50 bg-[radial-gradient(ellipse_at_top,_rgba(255,255,255,0.9),_rgba(214,226,255,0.65),_rgba(184,206,255,0.55)_55%,_rgba(164,198,255,0.4)_80%,rgba(142,176,255,0.35))] px-10 py-12 shadow-[inset_0_20px_40px_rgba(255,255,255,0.4)]">
+            <div className="pointer-events-none absolute inset-0">
+              <div className="absolute left-1/2 top-10 h-24 w-24 -translate-x-1/2 rounded-full bg-white/20 blur-3xl" />
+              <div className="absolute inset-x-10 bottom-16 h-[220px] rounded-[40px] bg-gradient-to-b from-white/30 via-white/12 to-transparent blur-xl" />
+              <div className="absolute left-1/2 top-0 h-full w-px -translate-x-1/2 bg-gradient-to-b from-transparent via-white/40 to-transparent" />
+            </div>
+
+            <FieldOverlay field={battle.field} still={still} />
+            <EffectLayer particles={particles} impacts={impacts} flashes={flashes} />
+
+            <div className="relative flex h-full w-full items-end justify-between">
+              <div className="flex w-[44%] flex-col gap-3">
+                <FighterCard
+                  pokemon={player}
+                  side="player"
+                  label={isOnline ? "You" : "Player"}
+                  trainer={TRAINER_LABELS.player}
+                  active={playerToAct}
+                  pose={poses.player ?? "idle"}
+                  still={still}
+                  shake={playerShake.controls}
+                />
+                <BenchStrip
+                  team={battle[viewSide]}
+                  onSelect={(index) => act({ type: "switch", side: viewSide, index })}
+                  selectable={(index) =>
+                    commandSide === viewSide &&
+                    commandCanSwitch &&
+                    canSwitchTo(battle, viewSide, index)
+                  }
+                />
+              </div>
+
+              <div className="flex w-[44%] flex-col gap-3">
+                <FighterCard
+                  pokemon={opponent}
+                  side="opponent"
+                  label="Opponent"
+                  trainer={TRAINER_LABELS.opponent}
+                  ready={hasChosen(foeSide)}
+                  active={opponentToAct}
+                  pose={poses.opponent ?? "idle"}
+                  still={still}
+                  shake={opponentShake.controls}
+                />
+                <BenchStrip
+                  team={battle[foeSide]}
+                  onSelect={
+                    isHotseat ? (index) => act({ type: "switch", side: foeSide, index }) : undefined
+                  }
+                  selectable={(index) =>
+                    commandSide === foeSide &&
+                    commandCanSwitch &&
+                    canSwitchTo(battle, foeSide, index)
+                  }
+                />
+              </div>
+            </div>
 
-            <motion.div
-              animate={opponentShake.controls}
-              className="relative flex w-[44%] flex-col gap-6 rounded-[28px] border border-white/70 bg-white/60 p-6 shadow-[0_25px_55px_rgba(112,165,255,0.18)] backdrop-blur-2xl"
-            >
+            {battle.victor && (
               <motion.div
-                className="relative flex flex-col items-start gap-3"
-                variants={BOUNCE_VARIANTS}
-                animate={battle.turn === "opponent" && !battle.victor ? "active" : "idle"}
+                initial={{ opacity: 0, scale: 0.96 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="pointer-events-none absolute inset-x-16 top-10 rounded-[24px] border border-white/60 bg-white/70 px-8 py-6 text-center text-lg font-semibold uppercase tracking-[0.3em] text-zinc-600 shadow-[0_20px_40px_rgba(79,117,255,0.22)] backdrop-blur-xl"
               >
-                <div className="absolute -top-12 left-1/2 h-32 w-32 -translate-x-1/2 rounded-full bg-white/30 blur-xl" />
-                <div className="relative flex h-36 w-full items-center justify-center rounded-[24px] border border-white/70 bg-gradient-to-br from-sky-50/90 via-white/90 to-white/75 shadow-[0_18px_45px_rgba(120,160,255,0.25)]">
-                  <div className="absolute -top-10 h-32 w-32 rounded-full bg-gradient-to-br from-sky-100/70 via-cyan-200/80 to-indigo-200/60 blur-2xl" />
-                  <span className="text-6xl drop-shadow-[0_18px_35px_rgba(96,165,250,0.45)]">🌊</span>
-                </div>
+                {battle.victor === viewSide
+                  ? `${player.name} claims a radiant victory!`
+                  : `${opponent.name} prevails in the surge!`}
               </motion.div>
-              <div className="flex flex-col gap-2">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-xs uppercase tracking-[0.4em] text-zinc-500">Opponent</p>
-                    <h2 className="text-2xl font-semibold text-zinc-900">
-                      {battle.opponent.name}
-                    </h2>
-                  </div>
-                  <span className="rounded-full bg-white/80 px-4 py-1 text-xs font-semibold uppercase tracking-[0.25em] text-zinc-500">
-                    {battle.opponent.flair}
+            )}
+          </section>
+
+          {mode === "gauntlet" && run && (
+            <GauntletPanel
+              run={run}
+              offers={rewardOffers}
+              leaderboard={leaderboard}
+              latest={latestRun}
+              onPick={pickReward}
+              onNewRun={resetBattle}
+            />
+          )}
+
+          <section className="grid grid-cols-[1.3fr_1fr] gap-8 max-lg:grid-cols-1">
+            <div className="flex flex-col gap-4 rounded-[30px] border border-white/50 bg-white/70 p-6 shadow-[0_20px_50px_rgba(112,128,255,0.16)] backdrop-blur-2xl">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.35em] text-zinc-500">
+                  Command Palette
+                </h3>
+                <button
+                  onClick={() => act({ type: "rest", side: commandSide })}
+                  disabled={commandDisabled}
+                  aria-keyshortcuts="C"
+                  className="flex items-center gap-2 rounded-full border border-white/60 bg-white/80 px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.25em] text-violet-500 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  Rest / Charge <Kbd>C</Kbd>
+                </button>
+              </div>
+              <p
+                className={clsx(
+                  "rounded-[18px] border px-4 py-2 text-xs font-medium",
+                  commandMustSwitch
+                    ? "border-rose-200/80 bg-rose-50/80 text-rose-500"
+                    : "border-white/50 bg-white/60 text-zinc-500",
+                )}
+              >
+                {paletteHint}
+              </p>
+              {awaitingHandoff ? (
+                <motion.div
+                  key={commandSide}
+                  initial={{ opacity: 0, scale: 0.97 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  className="flex flex-col items-center gap-4 rounded-[24px] border border-white/60 bg-white/80 px-6 py-10 text-center shadow-[0_18px_40px_rgba(120,125,255,0.16)] backdrop-blur-xl"
+                >
+                  <p className="text-[10px] font-semibold uppercase tracking-[0.35em] text-zinc-400">
+                    Pass the device
+                  </p>
+                  <p className="text-2xl font-semibold text-zinc-900">
+                    {TRAINER_LABELS[commandSide]}, you’re up with {commander.name}.
+                  </p>
+                  <p className="text-sm text-zinc-500">
+                    {TRAINER_LABELS[otherSide]}, look away — choices stay secret until
+                    both sides lock in.
+                  </p>
+                  <button
+                    onClick={() => setHolder(commandSide)}
+                    className="rounded-full bg-zinc-900 px-5 py-2 text-sm font-semibold text-white shadow-[0_10px_25px_rgba(15,23,42,0.18)] transition hover:scale-[1.02]"
+                  >
+                    I’m {TRAINER_LABELS[commandSide]} — show my moves
+                  </button>
+                </motion.div>
+              ) : (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {commander.moves.map((move, moveIndex) => {
+                    const style = TYPE_STYLES[move.type];
+                    const disabled = commandDisabled || !canAfford(commander, move);
+                    return (
+                      <button
+                        key={move.name}
+                        onClick={() => act({ type: "move", side: commandSide, moveIndex })}
+                        onMouseEnter={() => setInspected(moveIndex)}
+                        onMouseLeave={() => setInspected(null)}
+                        onFocus={() => setInspected(moveIndex)}
+                        onBlur={() => setInspected(null)}
+                        disabled={disabled}
+                        aria-keyshortcuts={String(moveIndex + 1)}
+                        className={clsx(
+                          "group relative overflow-hidden rounded-[24px] border border-white/60 px-5 py-6 text-left transition-all duration-300",
+                          "shadow-[0_18px_40px_rgba(120,125,255,0.16)] backdrop-blur-xl",
+                          disabled
+                            ? "cursor-not-allowed opacity-40"
+                            : "hover:scale-[1.02] hover:border-white/80",
+                        )}
+                      >
+                        <div
+                          className={clsx(
+                            "pointer-events-none absolute inset-0 bg-gradient-to-br opacity-80 transition-opacity group-hover:opacity-100",
+                            style.from,
+                            style.via,
+                            style.to,
+                          )}
+                        />
+                        <div className="relative flex flex-col gap-3">
+                          <div className="flex items-start justify-between">
+                            <span className="text-2xl drop-shadow-[0_10px_22px_rgba(15,23,42,0.18)]">
+                              {style.icon}
+                            </span>
+                            <span className="flex items-center gap-2">
+                              <span className="rounded-full bg-white/70 px-3 py-1 text-xs font-semibold uppercase tracking-[0.25em] text-zinc-600 backdrop-blur">
+                                {move.type}
+                              </span>
+                              <Kbd>{String(moveIndex + 1)}</Kbd>
+                            </span>
+                          </div>
+                          <div>
+                            <p className="text-lg font-semibold text-zinc-900">{move.name}</p>
+                            <p className="text-sm text-zinc-600">{move.description}</p>
+                          </div>
+                          <div className="flex items-center gap-4 text-xs font-semibold uppercase tracking-[0.35em] text-zinc-600">
+                            <span>Power {move.power}</span>
+                            <span>Acc {move.accuracy}%</span>
+                            <span>Cost {move.cost}</span>
+                            {move.priority ? (
+                              <span>
+                                Prio {move.priority > 0 ? "+" : "−"}
+                                {Math.abs(move.priority)}
+                              </span>
+                            ) : null}
+                          </div>
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              <p className="text-[11px] text-zinc-400">
+                Keys: <Kbd>1</Kbd>–<Kbd>4</Kbd> moves · <Kbd>Shift</Kbd>+<Kbd>1</Kbd>–
+                <Kbd>{String(battle[commandSide].members.length)}</Kbd> switch ·{" "}
+                <Kbd>C</Kbd> rest
+                {resetByKey && (
+                  <>
+                    {" "}
+                    · <Kbd>Shift</Kbd>+<Kbd>R</Kbd> new battle
+                  </>
+                )}
+              </p>
+              {!awaitingHandoff && inspected !== null && commander.moves[inspected] && (
+                <DamagePreviewPanel
+                  move={commander.moves[inspected]}
+                  attacker={commander}
+                  defender={activePokemon(battle, opposingSide(commandSide))}
+                  rules={battle.rules}
+                  field={battle.field}
+                />
+              )}
+            </div>
+            <div className="flex flex-col gap-4 rounded-[30px] border border-white/50 bg-white/70 p-6 shadow-[0_18px_40px_rgba(100,140,255,0.14)] backdrop-blur-2xl">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.35em] text-zinc-500">
+                  Battle Timeline
+                </h3>
+                <div className="flex items-center gap-2">
+                  {battle.victor && !playback && !isOnline && (
+                    <button
+                      onClick={() => watchReplay(currentReplay())}
+                      disabled={isResolving}
+                      className="rounded-full bg-white/80 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.28em] text-violet-500 transition hover:bg-white disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      Watch Replay
+                    </button>
+                  )}
+                  {(!isOnline || session.status === "ended") && (
+                    <button
+                      onClick={() => downloadReplay(currentReplay())}
+                      className="rounded-full bg-white/80 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500 transition hover:bg-white"
+                    >
+                      Export
+                    </button>
+                  )}
+                  {!isOnline && (
+                    <button
+                      onClick={() => replayInput.current?.click()}
+                      disabled={isResolving}
+                      className="rounded-full bg-white/80 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500 transition hover:bg-white disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      Load
+                    </button>
+                  )}
+                  <input
+                    ref={replayInput}
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleReplayFile}
+                    className="hidden"
+                  />
+                  <span className="rounded-full bg-white/80 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500">
+                    {playback ? "Replay" : isOnline ? "Online" : "Live Feed"}
                   </span>
                 </div>
-                <PokemonBadge pokemon={battle.opponent} />
               </div>
-              <HealthBar current={battle.opponent.hp} max={battle.opponent.maxHp} side="opponent" />
-            </motion.div>
-          </div>
-
-          {battle.victor && (
-            <motion.div
-              initial={{ opacity: 0, scale: 0.96 }}
-              animate={{ opacity: 1, scale: 1 }}
-              className="pointer-events-none absolute inset-x-16 top-10 rounded-[24px] border border-white/60 bg-white/70 px-8 py-6 text-center text-lg font-semibold uppercase tracking-[0.3em] text-zinc-600 shadow-[0_20px_40px_rgba(79,117,255,0.22)] backdrop-blur-xl"
-            >
-              {battle.victor === "player"
-                ? "Solaris claims a radiant victory!"
-                : "Tidal Vanguard prevails in the surge!"}
-            </motion.div>
-          )}
-        </section>
-
-        <section className="grid grid-cols-[1.3fr_1fr] gap-8 max-lg:grid-cols-1">
-          <div className="flex flex-col gap-4 rounded-[30px] border border-white/50 bg-white/70 p-6 shadow-[0_20px_50px_rgba(112,128,255,0.16)] backdrop-blur-2xl">
-            <h3 className="text-sm font-semibold uppercase tracking-[0.35em] text-zinc-500">
-              Command Palette
-            </h3>
-            <div className="grid gap-3 sm:grid-cols-2">
-              {battle.player.moves.map((move) => {
-                const style = TYPE_STYLES[move.type];
-                const disabled = playerDisabled;
-                return (
-                  <button
-                    key={move.name}
-                    onClick={() => resolveTurn("player", move)}
-                    disabled={disabled}
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="flex items-center gap-1 rounded-full border border-white/60 bg-white/70 p-1">
+                  {logSideFilters.map(({ filter, label }) => (
+                    <button
+                      key={filter}
+                      onClick={() => setLogSide(filter)}
+                      aria-pressed={logSide === filter}
+                      className={clsx(
+                        "rounded-full px-2.5 py-1 text-[10px] font-semibold uppercase tracking-[0.2em] transition",
+                        logSide === filter
+                          ? "bg-zinc-900 text-white"
+                          : "text-zinc-500 hover:bg-white/90",
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1 rounded-full border border-white/60 bg-white/70 p-1">
+                  {LOG_KIND_FILTERS.map(({ label }) => (
+                    <button
+                      key={label}
+                      onClick={() => setLogKind(label)}
+                      aria-pressed={logKind === label}
+                      className={clsx(
+                        "rounded-full px-2.5 py-1 text-[10px] font-semibold uppercase tracking-[0.2em] transition",
+                        logKind === label
+                          ? "bg-zinc-900 text-white"
+                          : "text-zinc-500 hover:bg-white/90",
+                      )}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={copyTranscript}
+                  className="ml-auto rounded-full bg-white/80 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500 transition hover:bg-white"
+                >
+                  {copyStatus === "copied"
+                    ? "Copied"
+                    : copyStatus === "failed"
+                      ? "Copy Failed"
+                      : "Copy Transcript"}
+                </button>
+              </div>
+              <div role="log" aria-live="polite" aria-label="Latest battle events" className="sr-only">
+                {battleLog.slice(-ANNOUNCED_ENTRIES).map((entry) => (
+                  <p key={entry.id}>{entry.text}</p>
+                ))}
+              </div>
+              <div className="flex h-72 flex-col gap-3 overflow-y-auto pr-1">
+                {visibleLog.length === 0 && (
+                  <p className="py-6 text-center text-sm text-zinc-400">
+                    Nothing matches these filters yet.
+                  </p>
+                )}
+                {visibleLog.map((entry) => (
+                  <motion.div
+                    key={entry.id}
+                    initial={{ opacity: 0, y: 12 }}
+                    animate={{ opacity: 1, y: 0 }}
                     className={clsx(
-                      "group relative overflow-hidden rounded-[24px] border border-white/60 px-5 py-6 text-left transition-all duration-300",
-                      "shadow-[0_18px_40px_rgba(120,125,255,0.16)] backdrop-blur-xl",
-                      disabled
-                        ? "cursor-not-allowed opacity-40"
-                        : "hover:scale-[1.02] hover:border-white/80",
+                      "shrink-0 rounded-[18px] border px-4 py-3 text-sm font-medium shadow-inner shadow-white/40 backdrop-blur",
+                      entry.kind === "turn"
+                        ? "border-white/30 bg-white/40 text-xs uppercase tracking-[0.2em] text-zinc-400"
+                        : "border-white/50 bg-white/65 text-zinc-600",
                     )}
                   >
-                    <div
-                      className={clsx(
-                        "pointer-events-none absolute inset-0 bg-gradient-to-br opacity-80 transition-opacity group-hover:opacity-100",
-                        style.from,
-                        style.via,
-                        style.to,
-                      )}
-                    />
-                    <div className="relative flex flex-col gap-3">
-                      <div className="flex items-start justify-between">
-                        <span className="text-2xl drop-shadow-[0_10px_22px_rgba(15,23,42,0.18)]">
-                          {style.icon}
+                    <div className="flex items-start justify-between gap-3">
+                      <span>{entry.text}</span>
+                      {entry.turn > 0 && entry.kind !== "turn" && (
+                        <span className="shrink-0 text-[10px] font-semibold tracking-[0.2em] text-zinc-400">
+                          T{entry.turn}
                         </span>
-                        <span className="rounded-full bg-white/70 px-3 py-1 text-xs font-semibold uppercase tracking-[0.25em] text-zinc-600 backdrop-blur">
-                          {move.type}
-                        </span>
-                      </div>
-                      <div>
-                        <p className="text-lg font-semibold text-zinc-900">{move.name}</p>
-                        <p className="text-sm text-zinc-600">{move.description}</p>
-                      </div>
-                      <div className="flex items-center gap-4 text-xs font-semibold uppercase tracking-[0.35em] text-zinc-600">
-                        <span>Power {move.power}</span>
-                        <span>Acc {move.accuracy}%</span>
-                      </div>
+                      )}
                     </div>
-                  </button>
-                );
-              })}
-            </div>
-          </div>
-          <div className="flex flex-col gap-4 rounded-[30px] border border-white/50 bg-white/70 p-6 shadow-[0_18px_40px_rgba(100,140,255,0.14)] backdrop-blur-2xl">
-            <div className="flex items-center justify-between">
-              <h3 className="text-sm font-semibold uppercase tracking-[0.35em] text-zinc-500">
-                Battle Timeline
-              </h3>
-              <span className="rounded-full bg-white/80 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500">
-                Live Feed
-              </span>
-            </div>
-            <div className="flex h-72 flex-col gap-3 overflow-hidden">
-              {battleLog.map((entry, index) => (
-                <motion.div
-                  key={`${entry}-${index}`}
-                  initial={{ opacity: 0, y: 12 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="rounded-[18px] border border-white/50 bg-white/65 px-4 py-3 text-sm font-medium text-zinc-600 shadow-inner shadow-white/40 backdrop-blur"
-                >
-                  {entry}
-                </motion.div>
-              ))}
+                    {(entry.damage !== undefined || entry.flags.length > 0) && (
+                      <div className="mt-2 flex flex-wrap gap-1.5 text-[10px] font-semibold uppercase tracking-[0.2em]">
+                        {entry.damage !== undefined && (
+                          <span className="rounded-full bg-rose-50/90 px-2 py-0.5 text-rose-500">
+                            {entry.target} −{entry.damage} · {entry.hpBefore} → {entry.hpAfter} HP
+                          </span>
+                        )}
+                        {entry.flags.map((flag) => (
+                          <span
+                            key={flag}
+                            className="rounded-full bg-white/80 px-2 py-0.5 text-violet-500"
+                          >
+                            {LOG_FLAG_LABELS[flag]}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </motion.div>
+                ))}
+              </div>
             </div>
-          </div>
-        </section>
-      </main>
-    </div>
+          </section>
+        </main>
+      </div>
+    </MotionConfig>
   );
 }
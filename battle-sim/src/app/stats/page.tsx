@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import Link from "next/link";
+import clsx from "clsx";
+import { summarizeHistory, type MatchRecord } from "../../battle";
+import { TYPE_STYLES } from "../../components/type-styles";
+import { clearMatches, downloadMatchHistory, loadMatches } from "../../storage/history";
+
+const TOP_MOVES = 5;
+const MIN_USES_FOR_EFFECTIVENESS = 3;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const StatCard = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="rounded-[24px] border border-white/60 bg-white/75 px-5 py-4 shadow-[0_14px_30px_rgba(120,125,255,0.12)]">
+    <p className="text-[10px] font-semibold uppercase tracking-[0.35em] text-zinc-400">{label}</p>
+    <p className="mt-2 text-3xl font-semibold text-zinc-900">{value}</p>
+    {detail && <p className="mt-1 text-xs text-zinc-500">{detail}</p>}
+  </div>
+);
+
+const Panel = ({ title, children }: { title: string; children: ReactNode }) => (
+  <section className="flex flex-col gap-3 rounded-[28px] border border-white/50 bg-white/70 p-6 shadow-[0_18px_40px_rgba(100,140,255,0.12)]">
+    <h2 className="text-sm font-semibold uppercase tracking-[0.35em] text-zinc-500">{title}</h2>
+    {children}
+  </section>
+);
+
+export default function Stats() {
+  const [records, setRecords] = useState<MatchRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadMatches()
+      .then(setRecords)
+      .catch(() => {
+        setRecords([]);
+        setError("Match history isn’t available in this browser.");
+      });
+  }, []);
+
+  const summary = useMemo(() => summarizeHistory(records ?? []), [records]);
+  const mostUsed = [...summary.moves].sort((a, b) => b.uses - a.uses).slice(0, TOP_MOVES);
+  const mostEffective = summary.moves
+    .filter((move) => move.uses >= MIN_USES_FOR_EFFECTIVENESS)
+    .sort((a, b) => b.damage / b.uses - a.damage / a.uses)
+    .slice(0, TOP_MOVES);
+  const species = [...summary.species].sort((a, b) => b.damageDealt - a.damageDealt);
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete every saved match?")) return;
+    await clearMatches();
+    setRecords([]);
+  };
+
+  return (
+    <div className="relative flex min-h-screen flex-col items-center justify-center px-6 py-16 text-zinc-900">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_top,_rgba(255,255,255,0.92),_rgba(212,224,255,0.75),_rgba(228,236,255,0.55)_60%,_rgba(233,242,255,0.4)_80%,_rgba(244,247,255,0.3))]" />
+      <main className="relative flex w-full max-w-6xl flex-col gap-8 rounded-[48px] border border-white/40 bg-white/65 p-10 shadow-[0_45px_90px_rgba(84,104,255,0.18)] backdrop-blur-[28px]">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.4em] text-zinc-500">Atelier Battle Lab</p>
+            <h1 className="mt-2 text-4xl font-semibold text-zinc-900">Trainer Stats</h1>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <Link
+              href="/"
+              className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90"
+            >
+              Back to Arena
+            </Link>
+            <button
+              onClick={handleClear}
+              disabled={!records?.length}
+              className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Clear History
+            </button>
+            <button
+              onClick={() => records && downloadMatchHistory(records)}
+              disabled={!records?.length}
+              className="rounded-full border border-white/60 bg-zinc-900 px-5 py-2 text-sm font-semibold text-white shadow-[0_10px_25px_rgba(15,23,42,0.18)] transition hover:scale-[1.02] disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Export CSV
+            </button>
+          </div>
+        </header>
+
+        {error && (
+          <p className="rounded-[22px] border border-rose-200/80 bg-rose-50/80 px-5 py-4 text-sm text-rose-600">
+            {error}
+          </p>
+        )}
+
+        {records === null ? (
+          <p className="text-sm text-zinc-500">Loading match history…</p>
+        ) : records.length === 0 ? (
+          <p className="rounded-[22px] border border-white/60 bg-white/70 px-5 py-6 text-center text-sm text-zinc-500">
+            No finished battles yet. Every battle you complete in the arena is saved here.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-4 max-lg:grid-cols-2">
+              <StatCard
+                label="Record"
+                value={`${summary.wins}–${summary.losses}`}
+                detail={`${percent(summary.winRate)} win rate over ${summary.played} battles`}
+              />
+              <StatCard
+                label="Current streak"
+                value={summary.current ? `${summary.current.length}` : "—"}
+                detail={
+                  summary.current && (summary.current.won ? "wins in a row" : "losses in a row")
+                }
+              />
+              <StatCard label="Best win streak" value={`${summary.bestWinStreak}`} />
+              <StatCard
+                label="Average length"
+                value={summary.averageTurns.toFixed(1)}
+                detail="turns per battle"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-6 max-lg:grid-cols-1">
+              <Panel title="Most used moves">
+                {mostUsed.map((move) => (
+                  <div key={move.move} className="flex items-center justify-between text-sm">
+                    <span className="font-semibold text-zinc-800">
+                      <span className={TYPE_STYLES[move.type].text}>{TYPE_STYLES[move.type].icon}</span>{" "}
+                      {move.move}
+                    </span>
+                    <span className="text-zinc-500">
+                      {move.uses} uses · {percent(move.hits / move.uses)} hit
+                    </span>
+                  </div>
+                ))}
+              </Panel>
+              <Panel title="Most effective moves">
+                {mostEffective.length === 0 && (
+                  <p className="text-sm text-zinc-500">
+                    Use a move {MIN_USES_FOR_EFFECTIVENESS} times to rank it here.
+                  </p>
+                )}
+                {mostEffective.map((move) => (
+                  <div key={move.move} className="flex items-center justify-between text-sm">
+                    <span className="font-semibold text-zinc-800">
+                      <span className={TYPE_STYLES[move.type].text}>{TYPE_STYLES[move.type].icon}</span>{" "}
+                      {move.move}
+                    </span>
+                    <span className="text-zinc-500">
+                      {(move.damage / move.uses).toFixed(1)} dmg/use · {move.superEffective} super
+                      effective · {move.crits} crits
+                    </span>
+                  </div>
+                ))}
+              </Panel>
+            </div>
+
+            <Panel title="Damage by species">
+              <table className="w-full text-left text-sm">
+                <thead className="text-[10px] uppercase tracking-[0.3em] text-zinc-400">
+                  <tr>
+                    <th className="py-2">Species</th>
+                    <th>Dealt</th>
+                    <th>Taken</th>
+                    <th>Faints</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {species.map((entry) => (
+                    <tr key={entry.species} className="border-t border-white/60 text-zinc-600">
+                      <td className="py-2 font-semibold text-zinc-800">{entry.species}</td>
+                      <td>{entry.damageDealt}</td>
+                      <td>{entry.damageTaken}</td>
+                      <td>{entry.faints}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Panel>
+
+            <Panel title="Recent battles">
+              {records.slice(0, 10).map((record) => (
+                <div key={record.id} className="flex items-center justify-between text-sm">
+                  <span className="text-zinc-600">
+                    {new Date(record.playedAt).toLocaleString()} · vs {record.opponent}
+                  </span>
+                  <span
+                    className={clsx(
+                      "rounded-full px-3 py-1 text-xs font-semibold",
+                      record.won ? "bg-emerald-100/90 text-emerald-700" : "bg-rose-100/90 text-rose-600",
+                    )}
+                  >
+                    {record.won ? "Win" : "Loss"} in {record.turns} turns
+                  </span>
+                </div>
+              ))}
+            </Panel>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
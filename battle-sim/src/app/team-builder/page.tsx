@@ -0,0 +1,320 @@
+"use client";
+
+import { useCallback, useRef, useState, type ChangeEvent } from "react";
+import Link from "next/link";
+import { AnimatePresence, motion } from "framer-motion";
+import clsx from "clsx";
+import {
+  CONTENT,
+  ContentError,
+  MAX_MOVES,
+  MAX_TEAM_SIZE,
+  parseTeam,
+  type TeamMemberSpec,
+  type TeamSpec,
+} from "../../battle";
+import { TYPE_STYLES } from "../../components/type-styles";
+import {
+  clearSavedTeam,
+  downloadTeam,
+  loadSavedTeam,
+  parseTeamText,
+  saveTeam,
+} from "../../storage/team";
+import { useStorageReady } from "../../storage/use-storage-ready";
+
+type Notice = { tone: "success" | "error"; title: string; issues?: string[] };
+
+const SPECIES = Object.values(CONTENT.species);
+
+const defaultMember = (speciesName: string): TeamMemberSpec => ({
+  species: speciesName,
+  moves: CONTENT.species[speciesName].learnset.slice(0, MAX_MOVES),
+});
+
+const errorNotice = (title: string, error: unknown): Notice => ({
+  tone: "error",
+  title,
+  issues: error instanceof ContentError ? error.issues : [String(error)],
+});
+
+const MemberCard = ({
+  member,
+  index,
+  onChange,
+  onRemove,
+}: {
+  member: TeamMemberSpec;
+  index: number;
+  onChange: (member: TeamMemberSpec) => void;
+  onRemove?: () => void;
+}) => {
+  const species = CONTENT.species[member.species];
+
+  const setMove = (slot: number, name: string) => {
+    const moves = [...member.moves];
+    if (name) {
+      moves[slot] = name;
+    } else {
+      moves.splice(slot, 1);
+    }
+    onChange({ ...member, moves });
+  };
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.96 }}
+      className="flex flex-col gap-4 rounded-[28px] border border-white/60 bg-white/70 p-6 shadow-[0_25px_55px_rgba(120,125,255,0.16)] backdrop-blur-2xl"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex flex-col gap-1">
+          <span className="text-[10px] font-semibold uppercase tracking-[0.35em] text-zinc-400">
+            Slot {index + 1}
+          </span>
+          <select
+            value={member.species}
+            onChange={(event) => onChange(defaultMember(event.target.value))}
+            className="rounded-full border border-white/70 bg-white/80 px-4 py-2 text-lg font-semibold text-zinc-900 outline-none"
+          >
+            {SPECIES.map((entry) => (
+              <option key={entry.name} value={entry.name}>
+                {entry.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            className="rounded-full bg-white/80 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.28em] text-rose-400 transition hover:bg-white"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs uppercase tracking-[0.3em] text-zinc-500">
+        {species.types.map((type) => (
+          <span
+            key={type}
+            className={clsx(
+              "rounded-full bg-white/70 px-3 py-1 font-semibold backdrop-blur",
+              TYPE_STYLES[type].text,
+            )}
+          >
+            {type}
+          </span>
+        ))}
+        <span className="rounded-full bg-white/70 px-3 py-1 font-semibold text-zinc-500">
+          HP {species.maxHp}
+        </span>
+        <span className="rounded-full bg-white/70 px-3 py-1 font-semibold text-zinc-500">
+          Spe {species.speed}
+        </span>
+      </div>
+      <p className="text-xs font-semibold uppercase tracking-[0.3em] text-zinc-400">
+        {species.flair}
+      </p>
+      <div className="grid gap-2">
+        {Array.from({ length: MAX_MOVES }).map((_, slot) => {
+          const current = member.moves[slot] ?? "";
+          const move = current ? CONTENT.moves[current] : undefined;
+          return (
+            <label
+              key={slot}
+              className="flex items-center gap-3 rounded-[18px] border border-white/60 bg-white/65 px-3 py-2"
+            >
+              <span className="w-6 text-center text-lg">
+                {move ? TYPE_STYLES[move.type].icon : "·"}
+              </span>
+              <select
+                value={current}
+                onChange={(event) => setMove(slot, event.target.value)}
+                disabled={slot > member.moves.length}
+                className="flex-1 bg-transparent text-sm font-semibold text-zinc-700 outline-none disabled:opacity-40"
+              >
+                <option value="">{slot === 0 ? "Choose a move" : "— empty —"}</option>
+                {species.learnset.map((name) => (
+                  <option
+                    key={name}
+                    value={name}
+                    disabled={name !== current && member.moves.includes(name)}
+                  >
+                    {name} · {CONTENT.moves[name].type} · {CONTENT.moves[name].power}
+                  </option>
+                ))}
+              </select>
+            </label>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+};
+
+export default function TeamBuilderPage() {
+  const stored = useStorageReady();
+  return <TeamBuilder key={stored ? "stored" : "default"} stored={stored} />;
+}
+
+function TeamBuilder({ stored }: { stored: boolean }) {
+  const [saved] = useState(() => (stored ? loadSavedTeam() : null));
+  const [members, setMembers] = useState<TeamMemberSpec[]>(
+    saved?.members ?? CONTENT.teams.player.members,
+  );
+  const [teamName, setTeamName] = useState(saved?.name ?? "My Atelier Team");
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const validate = useCallback((): TeamSpec | null => {
+    try {
+      return parseTeam({ name: teamName, members }, CONTENT.species, "team");
+    } catch (error) {
+      setNotice(errorNotice("This team isn’t ready yet.", error));
+      return null;
+    }
+  }, [members, teamName]);
+
+  const handleSave = () => {
+    const team = validate();
+    if (!team) return;
+    saveTeam(team);
+    setNotice({ tone: "success", title: "Team saved. It will lead your next battle." });
+  };
+
+  const handleExport = () => {
+    const team = validate();
+    if (team) downloadTeam(team);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const team = parseTeamText(await file.text(), file.name);
+      setMembers(team.members);
+      if (team.name) setTeamName(team.name);
+      setNotice({ tone: "success", title: `Imported ${file.name}. Save it to battle with it.` });
+    } catch (error) {
+      setNotice(errorNotice(`Couldn’t import ${file.name}.`, error));
+    }
+  };
+
+  const handleReset = () => {
+    clearSavedTeam();
+    setMembers(CONTENT.teams.player.members);
+    setNotice({ tone: "success", title: "Restored the default team." });
+  };
+
+  const updateMember = (index: number, member: TeamMemberSpec) => {
+    setMembers((prev) => prev.map((entry, current) => (current === index ? member : entry)));
+  };
+
+  return (
+    <div className="relative flex min-h-screen flex-col items-center justify-center px-6 py-16 text-zinc-900">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_top,_rgba(255,255,255,0.92),_rgba(212,224,255,0.75),_rgba(228,236,255,0.55)_60%,_rgba(233,242,255,0.4)_80%,_rgba(244,247,255,0.3))]" />
+      <main className="relative flex w-full max-w-6xl flex-col gap-8 rounded-[48px] border border-white/40 bg-white/65 p-10 shadow-[0_45px_90px_rgba(84,104,255,0.18)] backdrop-blur-[28px]">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.4em] text-zinc-500">Atelier Battle Lab</p>
+            <h1 className="mt-2 text-4xl font-semibold text-zinc-900">Team Builder</h1>
+            <input
+              value={teamName}
+              onChange={(event) => setTeamName(event.target.value)}
+              aria-label="Team name"
+              className="mt-3 w-72 rounded-full border border-white/60 bg-white/70 px-4 py-1.5 text-sm font-semibold text-zinc-600 outline-none"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <Link
+              href="/"
+              className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90"
+            >
+              Back to Arena
+            </Link>
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90"
+            >
+              Import JSON
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={handleExport}
+              className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={handleReset}
+              className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90"
+            >
+              Use Default
+            </button>
+            <button
+              onClick={handleSave}
+              className="rounded-full border border-white/60 bg-zinc-900 px-5 py-2 text-sm font-semibold text-white shadow-[0_10px_25px_rgba(15,23,42,0.18)] transition hover:scale-[1.02]"
+            >
+              Save Team
+            </button>
+          </div>
+        </header>
+
+        {notice && (
+          <div
+            className={clsx(
+              "rounded-[22px] border px-5 py-4 text-sm",
+              notice.tone === "error"
+                ? "border-rose-200/80 bg-rose-50/80 text-rose-600"
+                : "border-emerald-200/80 bg-emerald-50/80 text-emerald-600",
+            )}
+          >
+            <p className="font-semibold">{notice.title}</p>
+            {notice.issues && (
+              <ul className="mt-2 list-disc pl-5 font-mono text-xs">
+                {notice.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <section className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          <AnimatePresence>
+            {members.map((member, index) => (
+              <MemberCard
+                key={index}
+                member={member}
+                index={index}
+                onChange={(next) => updateMember(index, next)}
+                onRemove={
+                  members.length > 1
+                    ? () => setMembers((prev) => prev.filter((_, current) => current !== index))
+                    : undefined
+                }
+              />
+            ))}
+          </AnimatePresence>
+          {members.length < MAX_TEAM_SIZE && (
+            <button
+              onClick={() => setMembers((prev) => [...prev, defaultMember(SPECIES[0].name)])}
+              className="flex min-h-[240px] items-center justify-center rounded-[28px] border border-dashed border-zinc-300/80 bg-white/40 text-sm font-semibold uppercase tracking-[0.35em] text-zinc-400 transition hover:bg-white/70"
+            >
+              Add Pokémon
+            </button>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import clsx from "clsx";
+import {
+  formatMultiplier,
+  matchupLabel,
+  MOVE_TYPES,
+  typeMultiplier,
+  type MoveType,
+} from "../../battle";
+import { matchupStyle, TYPE_STYLES } from "../../components/type-styles";
+
+interface Cell {
+  attack: MoveType;
+  defend: MoveType;
+}
+
+const MAX_DEFENDING_TYPES = 2;
+
+export default function TypeChart() {
+  const [hovered, setHovered] = useState<Cell | null>(null);
+  const [defending, setDefending] = useState<MoveType[]>([]);
+
+  const toggleDefending = (type: MoveType) =>
+    setDefending((prev) =>
+      prev.includes(type)
+        ? prev.filter((entry) => entry !== type)
+        : [...prev, type].slice(-MAX_DEFENDING_TYPES),
+    );
+
+  const caption = hovered
+    ? `${hovered.attack} → ${hovered.defend}: ${formatMultiplier(
+        typeMultiplier(hovered.attack, [hovered.defend]),
+      )} · ${matchupLabel(typeMultiplier(hovered.attack, [hovered.defend]))}`
+    : "Hover a cell to read a matchup. Pick defending types to see combined multipliers.";
+
+  return (
+    <div className="relative flex min-h-screen flex-col items-center justify-center px-6 py-16 text-zinc-900">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_top,_rgba(255,255,255,0.92),_rgba(212,224,255,0.75),_rgba(228,236,255,0.55)_60%,_rgba(233,242,255,0.4)_80%,_rgba(244,247,255,0.3))]" />
+      <main className="relative flex w-full max-w-6xl flex-col gap-8 rounded-[48px] border border-white/40 bg-white/65 p-10 shadow-[0_45px_90px_rgba(84,104,255,0.18)] backdrop-blur-[28px]">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <p className="text-xs uppercase tracking-[0.4em] text-zinc-500">Atelier Battle Lab</p>
+            <h1 className="mt-2 text-4xl font-semibold text-zinc-900">Type Chart</h1>
+            <p className="mt-2 text-sm text-zinc-500">
+              Rows attack, columns defend. Dual-typed defenders multiply both columns.
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="rounded-full border border-white/60 bg-white/70 px-5 py-2 text-sm font-semibold text-zinc-600 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white/90"
+          >
+            Back to Arena
+          </Link>
+        </header>
+
+        <p
+          aria-live="polite"
+          className="rounded-[18px] border border-white/50 bg-white/60 px-4 py-2 text-sm font-medium text-zinc-600"
+        >
+          {caption}
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="w-full border-separate border-spacing-1 text-center text-sm">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-left text-[10px] font-semibold uppercase tracking-[0.3em] text-zinc-400">
+                  Atk ↓ / Def →
+                </th>
+                {MOVE_TYPES.map((defend) => (
+                  <th key={defend} scope="col">
+                    <button
+                      onClick={() => toggleDefending(defend)}
+                      aria-pressed={defending.includes(defend)}
+                      className={clsx(
+                        "w-full rounded-[14px] px-2 py-2 text-xs font-semibold transition",
+                        defending.includes(defend)
+                          ? "bg-zinc-900 text-white"
+                          : hovered?.defend === defend
+                            ? "bg-white text-zinc-900"
+                            : "bg-white/60 text-zinc-500 hover:bg-white",
+                      )}
+                    >
+                      <span className="block text-base">{TYPE_STYLES[defend].icon}</span>
+                      {defend}
+                    </button>
+                  </th>
+                ))}
+                {defending.length > 0 && (
+                  <th
+                    scope="col"
+                    className="rounded-[14px] bg-violet-100/80 px-2 py-2 text-xs font-semibold text-violet-600"
+                  >
+                    vs {defending.join("/")}
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {MOVE_TYPES.map((attack) => {
+                const combined = typeMultiplier(attack, defending);
+                return (
+                  <tr key={attack}>
+                    <th
+                      scope="row"
+                      className={clsx(
+                        "rounded-[14px] px-3 py-2 text-left text-xs font-semibold",
+                        hovered?.attack === attack ? "bg-white text-zinc-900" : "text-zinc-500",
+                      )}
+                    >
+                      <span className={TYPE_STYLES[attack].text}>{TYPE_STYLES[attack].icon}</span>{" "}
+                      {attack}
+                    </th>
+                    {MOVE_TYPES.map((defend) => {
+                      const multiplier = typeMultiplier(attack, [defend]);
+                      const inCross = hovered?.attack === attack || hovered?.defend === defend;
+                      return (
+                        <td
+                          key={defend}
+                          tabIndex={0}
+                          onMouseEnter={() => setHovered({ attack, defend })}
+                          onFocus={() => setHovered({ attack, defend })}
+                          onMouseLeave={() => setHovered(null)}
+                          onBlur={() => setHovered(null)}
+                          aria-label={`${attack} against ${defend}: ${formatMultiplier(multiplier)}`}
+                          className={clsx(
+                            "rounded-[12px] px-2 py-2 font-semibold outline-none transition",
+                            matchupStyle(multiplier),
+                            inCross && "ring-2 ring-violet-300",
+                            hovered?.attack === attack && hovered.defend === defend && "scale-105",
+                          )}
+                        >
+                          {formatMultiplier(multiplier)}
+                        </td>
+                      );
+                    })}
+                    {defending.length > 0 && (
+                      <td
+                        className={clsx(
+                          "rounded-[12px] px-2 py-2 font-semibold",
+                          matchupStyle(combined),
+                        )}
+                      >
+                        {formatMultiplier(combined)}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap gap-3 text-xs font-semibold">
+          {[2, 1, 0.5, 0].map((multiplier) => (
+            <span
+              key={multiplier}
+              className={clsx("rounded-full px-3 py-1", matchupStyle(multiplier))}
+            >
+              {formatMultiplier(multiplier)} {matchupLabel(multiplier)}
+            </span>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
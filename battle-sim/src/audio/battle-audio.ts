@@ -0,0 +1,281 @@
+import { opposingSide, type BattleEvent, type MoveType, type Side } from "../battle";
+
+export type Cue =
+  | { kind: "launch"; type: MoveType }
+  | { kind: "impact"; type: MoveType }
+  | { kind: "crit" }
+  | { kind: "super" }
+  | { kind: "jingle"; outcome: "victory" | "defeat" };
+
+// The warning loop runs while the viewer's active Pokémon is below this share of its HP.
+export const LOW_HP_RATIO = 0.25;
+
+// Launch cues play as a step starts; the rest land with the hit, alongside its log entries.
+export const eventCues = (events: BattleEvent[], view: Side) => {
+  const moves = new Map(
+    events.flatMap((event) =>
+      event.type === "MoveUsed" ? [[event.side, event.move.type] as const] : [],
+    ),
+  );
+  const launch = [...moves.values()].map((type): Cue => ({ kind: "launch", type }));
+  const impact = events.flatMap((event): Cue[] => {
+    switch (event.type) {
+      case "Damage":
+        return [
+          {
+            kind: "impact",
+            type: (!event.cause && moves.get(opposingSide(event.side))) || "Normal",
+          },
+        ];
+      case "Crit":
+        return [{ kind: "crit" }];
+      case "Effectiveness":
+        return event.multiplier > 1 ? [{ kind: "super" }] : [];
+      case "Victory":
+        return [{ kind: "jingle", outcome: event.side === view ? "victory" : "defeat" }];
+      default:
+        return [];
+    }
+  });
+  return { launch, impact };
+};
+
+// Each type has an oscillator shape, a base pitch in Hz, the ratio its pitch slides to over a
+// launch, and how much hiss is mixed in.
+interface Voice {
+  wave: OscillatorType;
+  pitch: number;
+  sweep: number;
+  noise: number;
+}
+
+const TYPE_VOICES: Record<MoveType, Voice> = {
+  Normal: { wave: "triangle", pitch: 440, sweep: 0.8, noise: 0.2 },
+  Fire: { wave: "sawtooth", pitch: 220, sweep: 1.6, noise: 0.7 },
+  Water: { wave: "sine", pitch: 330, sweep: 0.6, noise: 0.4 },
+  Electric: { wave: "square", pitch: 880, sweep: 1.8, noise: 0.3 },
+  Grass: { wave: "triangle", pitch: 523, sweep: 1.2, noise: 0.2 },
+  Ice: { wave: "sine", pitch: 1047, sweep: 1.3, noise: 0.1 },
+  Fighting: { wave: "square", pitch: 165, sweep: 0.7, noise: 0.5 },
+  Poison: { wave: "sawtooth", pitch: 294, sweep: 0.7, noise: 0.3 },
+  Ground: { wave: "triangle", pitch: 110, sweep: 0.6, noise: 0.8 },
+  Flying: { wave: "sine", pitch: 660, sweep: 1.5, noise: 0.5 },
+  Psychic: { wave: "sine", pitch: 587, sweep: 2, noise: 0 },
+  Bug: { wave: "square", pitch: 740, sweep: 0.9, noise: 0.2 },
+  Rock: { wave: "triangle", pitch: 131, sweep: 0.8, noise: 0.9 },
+  Ghost: { wave: "sine", pitch: 247, sweep: 0.5, noise: 0.1 },
+  Dragon: { wave: "sawtooth", pitch: 196, sweep: 1.4, noise: 0.4 },
+  Dark: { wave: "sawtooth", pitch: 147, sweep: 0.6, noise: 0.3 },
+  Steel: { wave: "square", pitch: 392, sweep: 1.1, noise: 0.4 },
+  Fairy: { wave: "sine", pitch: 784, sweep: 1.5, noise: 0 },
+};
+
+const MUSIC_LEVEL = 0.12;
+const BEAT = 60 / 112 / 2;
+// Chord tones for a four-bar loop (Am, F, C, G), each arpeggiated over a bar of eighths.
+const PROGRESSION = [
+  [220, 262, 330],
+  [175, 220, 262],
+  [262, 330, 392],
+  [196, 247, 294],
+];
+const ARPEGGIO = [0, 1, 2, 1, 0, 2, 1, 2];
+const SCHEDULE_AHEAD = 0.5;
+
+export interface BattleAudio {
+  resume: () => void;
+  setVolume: (volume: number) => void;
+  play: (cue: Cue) => void;
+  setLoops: (loops: { music: boolean; warning: boolean }) => void;
+  dispose: () => void;
+}
+
+// Nothing is created until `resume`, which browsers only allow after a user gesture. Cues
+// that arrive before then are dropped rather than queued.
+export const createBattleAudio = (): BattleAudio => {
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let noise: AudioBuffer | null = null;
+  let volume = 1;
+  let loops = { music: false, warning: false };
+  let music: { bus: GainNode; timer: number; bar: number; start: number } | null = null;
+  let warning = 0;
+
+  const running = () => (context?.state === "running" && master ? { context, master } : null);
+
+  const tone = (
+    at: number,
+    options: { wave: OscillatorType; from: number; to?: number; duration: number; gain: number },
+    output?: AudioNode,
+  ) => {
+    const audio = running();
+    if (!audio) return;
+    const oscillator = audio.context.createOscillator();
+    const envelope = audio.context.createGain();
+    oscillator.type = options.wave;
+    oscillator.frequency.setValueAtTime(options.from, at);
+    if (options.to) {
+      oscillator.frequency.exponentialRampToValueAtTime(options.to, at + options.duration);
+    }
+    envelope.gain.setValueAtTime(0.0001, at);
+    envelope.gain.exponentialRampToValueAtTime(options.gain, at + 0.01);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, at + options.duration);
+    oscillator.connect(envelope).connect(output ?? audio.master);
+    oscillator.start(at);
+    oscillator.stop(at + options.duration + 0.05);
+  };
+
+  const hiss = (at: number, duration: number, gain: number) => {
+    const audio = running();
+    if (!audio || gain <= 0) return;
+    if (!noise) {
+      noise = audio.context.createBuffer(1, audio.context.sampleRate, audio.context.sampleRate);
+      const samples = noise.getChannelData(0);
+      for (let index = 0; index < samples.length; index += 1) {
+        samples[index] = Math.random() * 2 - 1;
+      }
+    }
+    const source = audio.context.createBufferSource();
+    const envelope = audio.context.createGain();
+    source.buffer = noise;
+    envelope.gain.setValueAtTime(gain, at);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, at + duration);
+    source.connect(envelope).connect(audio.master);
+    source.start(at);
+    source.stop(at + duration);
+  };
+
+  const notes = (at: number, wave: OscillatorType, pitches: number[], step: number, gain: number) =>
+    pitches.forEach((pitch, index) =>
+      tone(at + index * step, {
+        wave,
+        from: pitch,
+        duration: index === pitches.length - 1 ? step * 3 : step,
+        gain,
+      }),
+    );
+
+  const play = (cue: Cue) => {
+    const audio = running();
+    if (!audio) return;
+    const now = audio.context.currentTime;
+    switch (cue.kind) {
+      case "launch": {
+        const voice = TYPE_VOICES[cue.type];
+        tone(now, {
+          wave: voice.wave,
+          from: voice.pitch,
+          to: voice.pitch * voice.sweep,
+          duration: 0.25,
+          gain: 0.16,
+        });
+        hiss(now, 0.2, 0.12 * voice.noise);
+        break;
+      }
+      case "impact": {
+        const voice = TYPE_VOICES[cue.type];
+        tone(now, {
+          wave: voice.wave,
+          from: voice.pitch / 2,
+          to: voice.pitch / 4,
+          duration: 0.18,
+          gain: 0.28,
+        });
+        hiss(now, 0.14, 0.2 + 0.2 * voice.noise);
+        break;
+      }
+      case "crit":
+        notes(now + 0.05, "square", [880, 1320], 0.07, 0.12);
+        break;
+      case "super":
+        notes(now + 0.05, "sine", [523, 659, 784], 0.09, 0.16);
+        break;
+      case "jingle":
+        if (cue.outcome === "victory") {
+          notes(now + 0.2, "triangle", [523, 659, 784, 1047], 0.14, 0.22);
+        } else {
+          notes(now + 0.2, "triangle", [392, 330, 262, 196], 0.22, 0.2);
+        }
+        break;
+    }
+  };
+
+  const scheduleMusic = () => {
+    const audio = running();
+    if (!audio || !music) return;
+    while (music.start < audio.context.currentTime + SCHEDULE_AHEAD) {
+      const chord = PROGRESSION[music.bar % PROGRESSION.length];
+      const at = music.start;
+      const bus = music.bus;
+      ARPEGGIO.forEach((note, index) =>
+        tone(
+          at + index * BEAT,
+          { wave: "triangle", from: chord[note], duration: BEAT * 0.9, gain: 0.5 },
+          bus,
+        ),
+      );
+      tone(at, { wave: "sine", from: chord[0] / 2, duration: BEAT * 7.5, gain: 0.6 }, bus);
+      music.bar += 1;
+      music.start += BEAT * ARPEGGIO.length;
+    }
+  };
+
+  const sync = () => {
+    const audio = running();
+    if (audio && loops.music && !music) {
+      const bus = audio.context.createGain();
+      bus.gain.value = MUSIC_LEVEL;
+      bus.connect(audio.master);
+      music = { bus, timer: 0, bar: 0, start: audio.context.currentTime + 0.1 };
+      scheduleMusic();
+      music.timer = window.setInterval(scheduleMusic, 200);
+    } else if ((!audio || !loops.music) && music) {
+      window.clearInterval(music.timer);
+      music.bus.disconnect();
+      music = null;
+    }
+
+    if (audio && loops.warning && !warning) {
+      const beep = () => {
+        const at = running()?.context.currentTime;
+        if (at === undefined) return;
+        notes(at, "square", [988, 988], 0.15, 0.08);
+      };
+      beep();
+      warning = window.setInterval(beep, 900);
+    } else if ((!audio || !loops.warning) && warning) {
+      window.clearInterval(warning);
+      warning = 0;
+    }
+  };
+
+  return {
+    resume: () => {
+      if (typeof window === "undefined") return;
+      if (!context) {
+        context = new AudioContext();
+        master = context.createGain();
+        master.gain.value = volume;
+        master.connect(context.destination);
+      }
+      if (context.state === "running") return;
+      context.resume().then(sync, (error: unknown) => console.warn(error));
+    },
+    setVolume: (next) => {
+      volume = next;
+      if (context && master) master.gain.setTargetAtTime(volume, context.currentTime, 0.02);
+    },
+    play,
+    setLoops: (next) => {
+      loops = next;
+      sync();
+    },
+    dispose: () => {
+      loops = { music: false, warning: false };
+      sync();
+      void context?.close();
+      context = null;
+      master = null;
+    },
+  };
+};
@@ -0,0 +1,55 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  DEFAULT_AUDIO_SETTINGS,
+  loadAudioSettings,
+  saveAudioSettings,
+  type AudioSettings,
+} from "../storage/audio";
+import { createBattleAudio, type BattleAudio, type Cue } from "./battle-audio";
+
+// `stored` says whether localStorage may be read yet (see useStorageReady).
+export const useBattleAudio = (stored: boolean) => {
+  const [settings, setSettings] = useState<AudioSettings>(() =>
+    stored ? loadAudioSettings() : DEFAULT_AUDIO_SETTINGS,
+  );
+  const settingsRef = useRef(settings);
+  const audioRef = useRef<BattleAudio | null>(null);
+
+  // Browsers keep audio suspended until the page is interacted with.
+  useEffect(() => {
+    const audio = createBattleAudio();
+    audioRef.current = audio;
+    const unlock = () => audio.resume();
+    window.addEventListener("pointerdown", unlock);
+    window.addEventListener("keydown", unlock);
+    return () => {
+      window.removeEventListener("pointerdown", unlock);
+      window.removeEventListener("keydown", unlock);
+      audio.dispose();
+      audioRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    audioRef.current?.setVolume(settings.muted ? 0 : settings.volume);
+  }, [settings]);
+
+  const updateSettings = useCallback((change: Partial<AudioSettings>) => {
+    const next = { ...settingsRef.current, ...change };
+    saveAudioSettings(next);
+    setSettings(next);
+  }, []);
+
+  const play = useCallback((cues: Cue[]) => {
+    cues.forEach((cue) => audioRef.current?.play(cue));
+  }, []);
+
+  const setLoops = useCallback((loops: { music: boolean; warning: boolean }) => {
+    audioRef.current?.setLoops(loops);
+  }, []);
+
+  return { settings, updateSettings, play, setLoops };
+};
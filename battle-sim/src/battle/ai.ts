@@ -0,0 +1,181 @@
+import { MAX_ENERGY } from "./data";
+import {
+  activePokemon,
+  applyAction,
+  clamp,
+  fieldMultiplier,
+  hitChance,
+  legalActions,
+  opposingSide,
+  randomAction,
+  stabMultiplier,
+  typeMultiplier,
+} from "./engine";
+import { CLASSIC_RULES } from "./rules";
+import type {
+  BattleAction,
+  BattlePokemon,
+  BattleRules,
+  BattleState,
+  Field,
+  Move,
+  Side,
+} from "./types";
+
+export type Difficulty = "easy" | "normal" | "hard";
+
+export interface BattleAi {
+  difficulty: Difficulty;
+  label: string;
+  description: string;
+  chooseAction: (state: BattleState, side: Side) => BattleAction;
+}
+
+const HARD_SAMPLES = 4;
+const HARD_GREEDY_WEIGHT = 0.7;
+const HARD_SALT = 0x27d4eb2f;
+
+export const expectedDamage = (
+  move: Move,
+  attacker: BattlePokemon,
+  defender: BattlePokemon,
+  rules: BattleRules = CLASSIC_RULES,
+  field?: Field,
+) => {
+  const multiplier = typeMultiplier(move.type, defender.types);
+  if (move.power <= 0 || multiplier === 0) return 0;
+  // Mean of the damage roll, and the average boost crits add to it.
+  const meanVariance = (rules.minVariance + rules.maxVariance) / 2;
+  const meanCrit = 1 + rules.critChance * (rules.critMultiplier - 1);
+  const roll = clamp(
+    move.power *
+      meanVariance *
+      meanCrit *
+      multiplier *
+      stabMultiplier(move, attacker) *
+      fieldMultiplier(move.type, field),
+    rules.minDamage,
+    rules.maxDamage,
+  );
+  return roll * hitChance(move, attacker, defender);
+};
+
+const sameAction = (a: BattleAction, b: BattleAction) =>
+  a.type === b.type &&
+  (a.type !== "move" || b.type !== "move" || a.moveIndex === b.moveIndex) &&
+  (a.type !== "switch" || b.type !== "switch" || a.index === b.index);
+
+const bestDamage = (attacker: BattlePokemon, defender: BattlePokemon, state: BattleState) =>
+  Math.max(
+    0,
+    ...attacker.moves.map((move) =>
+      expectedDamage(move, attacker, defender, state.rules, state.field),
+    ),
+  );
+
+// Picks the bench member that hits the foe hardest while taking the least in return.
+const bestReplacement = (state: BattleState, side: Side, options: BattleAction[]) => {
+  const foe = activePokemon(state, opposingSide(side));
+  const score = (action: BattleAction) => {
+    if (action.type !== "switch") return -Infinity;
+    const member = state[side].members[action.index];
+    return bestDamage(member, foe, state) - bestDamage(foe, member, state);
+  };
+  return options.reduce((best, action) => (score(action) > score(best) ? action : best));
+};
+
+const greedyAction = (state: BattleState, side: Side): BattleAction => {
+  const options = legalActions(state, side);
+  if (state.pendingSwitches.includes(side)) return bestReplacement(state, side, options);
+
+  const attacker = activePokemon(state, side);
+  const defender = activePokemon(state, opposingSide(side));
+  let best: BattleAction = { type: "rest", side };
+  let bestScore = 0;
+  options.forEach((action) => {
+    if (action.type !== "move") return;
+    const move = attacker.moves[action.moveIndex];
+    const score =
+      expectedDamage(move, attacker, defender, state.rules, state.field) -
+      move.cost / MAX_ENERGY;
+    if (score > bestScore) {
+      best = action;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+const teamScore = (state: BattleState, side: Side) =>
+  state[side].members.reduce(
+    (total, member) =>
+      total +
+      member.hp / member.maxHp +
+      (member.hp > 0 ? 0.25 + (member.energy / MAX_ENERGY) * 0.1 : 0) -
+      (member.status ? 0.1 : 0),
+    0,
+  );
+
+const evaluate = (state: BattleState, side: Side) => {
+  if (state.victor) return state.victor === side ? 100 : -100;
+  return teamScore(state, side) - teamScore(state, opposingSide(side));
+};
+
+// Averages each of our options over a handful of sampled dice rolls and the foe's likely replies.
+// The foe is modelled as usually greedy, occasionally anything legal. Hidden choices are ignored.
+const expectimaxAction = (state: BattleState, side: Side): BattleAction => {
+  if (state.pendingSwitches.length > 0) return greedyAction(state, side);
+
+  const foeSide = opposingSide(side);
+  const root: BattleState = { ...state, choices: {} };
+  const ours = legalActions(root, side);
+  const replies = legalActions(root, foeSide);
+  const likely = greedyAction(root, foeSide);
+  const weightOf = (reply: BattleAction) =>
+    (1 - HARD_GREEDY_WEIGHT) / replies.length +
+    (sameAction(reply, likely) ? HARD_GREEDY_WEIGHT : 0);
+  const samples = Array.from(
+    { length: HARD_SAMPLES },
+    (_, index) => (state.rng ^ (HARD_SALT + index)) >>> 0,
+  );
+
+  const valueOf = (action: BattleAction) =>
+    replies.reduce((total, reply) => {
+      const outcome = samples.reduce((sum, rng) => {
+        const chosen = applyAction({ ...root, rng }, action).state;
+        return sum + evaluate(applyAction(chosen, reply).state, side);
+      }, 0);
+      return total + weightOf(reply) * (outcome / samples.length);
+    }, 0);
+
+  return ours.reduce(
+    (best, action) => {
+      const value = valueOf(action);
+      return value > best.value ? { action, value } : best;
+    },
+    { action: ours[0], value: -Infinity },
+  ).action;
+};
+
+export const AI_LEVELS: Record<Difficulty, BattleAi> = {
+  easy: {
+    difficulty: "easy",
+    label: "Easy",
+    description: "Picks any move it can afford.",
+    chooseAction: randomAction,
+  },
+  normal: {
+    difficulty: "normal",
+    label: "Normal",
+    description: "Goes for the highest expected damage.",
+    chooseAction: greedyAction,
+  },
+  hard: {
+    difficulty: "hard",
+    label: "Hard",
+    description: "Looks a turn ahead and weighs the odds.",
+    chooseAction: expectimaxAction,
+  },
+};
+
+export const DIFFICULTIES = Object.keys(AI_LEVELS) as Difficulty[];
@@ -0,0 +1,441 @@
+import {
+  FIELD_CONDITIONS,
+  MOVE_TYPES,
+  STAGE_STATS,
+  STATUS_CONDITIONS,
+  type BattleRules,
+  type BoostStat,
+  type Field,
+  type Move,
+  type MoveEffect,
+  type MoveType,
+  type Species,
+  type TeamMemberSpec,
+  type TeamSpec,
+  type TypeChart,
+} from "./types";
+
+export const MAX_TEAM_SIZE = 6;
+export const MAX_MOVES = 4;
+export const MAX_FIELD_TURNS = 99;
+
+export interface BattleContent {
+  moves: Record<string, Move>;
+  species: Record<string, Species>;
+  typeChart: TypeChart;
+  teams: { player: TeamSpec; opponent: TeamSpec };
+}
+
+export class ContentError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid ${source}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ContentError";
+  }
+}
+
+type Issues = string[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) =>
+  value === undefined ? "nothing" : Array.isArray(value) ? "an array" : JSON.stringify(value);
+
+const readString = (record: Record<string, unknown>, key: string, path: string, issues: Issues) => {
+  const value = record[key];
+  if (typeof value === "string" && value.trim() !== "") return value;
+  issues.push(`${path}.${key} must be a non-empty string, got ${describe(value)}`);
+  return "";
+};
+
+const readNumber = (
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: Issues,
+  { min, max }: { min: number; max: number },
+) => {
+  const value = record[key];
+  if (typeof value === "number" && Number.isFinite(value) && value >= min && value <= max) {
+    return value;
+  }
+  issues.push(`${path}.${key} must be a number between ${min} and ${max}, got ${describe(value)}`);
+  return min;
+};
+
+const expectEnum = <T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  path: string,
+  issues: Issues,
+): T => {
+  if (typeof value === "string" && (allowed as readonly string[]).includes(value)) {
+    return value as T;
+  }
+  issues.push(`${path} must be one of ${allowed.join(", ")}, got ${describe(value)}`);
+  return allowed[0];
+};
+
+const readEnum = <T extends string>(
+  record: Record<string, unknown>,
+  key: string,
+  allowed: readonly T[],
+  path: string,
+  issues: Issues,
+) => expectEnum(record[key], allowed, `${path}.${key}`, issues);
+
+const readArray = (record: Record<string, unknown>, key: string, path: string, issues: Issues) => {
+  const value = record[key];
+  if (Array.isArray(value)) return value as unknown[];
+  issues.push(`${path}.${key} must be an array, got ${describe(value)}`);
+  return [];
+};
+
+const readRecord = (value: unknown, path: string, issues: Issues) => {
+  if (isRecord(value)) return value;
+  issues.push(`${path} must be an object, got ${describe(value)}`);
+  return undefined;
+};
+
+const checkUnique = (names: string[], path: string, issues: Issues) => {
+  const seen = new Set<string>();
+  names.forEach((name) => {
+    if (seen.has(name)) issues.push(`${path} lists "${name}" more than once`);
+    seen.add(name);
+  });
+};
+
+const readField = (record: Record<string, unknown>, path: string, issues: Issues): Field => {
+  const turns = readNumber(record, "turns", path, issues, { min: 1, max: MAX_FIELD_TURNS });
+  if (!Number.isInteger(turns)) issues.push(`${path}.turns must be a whole number`);
+  return { condition: readEnum(record, "condition", FIELD_CONDITIONS, path, issues), turns };
+};
+
+const parseEffect = (raw: unknown, path: string, issues: Issues): MoveEffect | undefined => {
+  const record = readRecord(raw, path, issues);
+  if (!record) return undefined;
+
+  switch (record.type) {
+    case "stage": {
+      const effect: MoveEffect = {
+        type: "stage",
+        target: readEnum(record, "target", ["self", "foe"] as const, path, issues),
+        stat: readEnum(record, "stat", STAGE_STATS, path, issues),
+        stages: readNumber(record, "stages", path, issues, { min: -6, max: 6 }),
+      };
+      return record.chance === undefined
+        ? effect
+        : { ...effect, chance: readNumber(record, "chance", path, issues, { min: 0, max: 100 }) };
+    }
+    case "heal":
+      return {
+        type: "heal",
+        percent: readNumber(record, "percent", path, issues, { min: 0, max: 100 }),
+      };
+    case "drain":
+      return { type: "drain", ratio: readNumber(record, "ratio", path, issues, { min: 0, max: 1 }) };
+    case "energyDrain":
+      return {
+        type: "energyDrain",
+        amount: readNumber(record, "amount", path, issues, { min: 0, max: 100 }),
+      };
+    case "status":
+      return {
+        type: "status",
+        condition: readEnum(record, "condition", STATUS_CONDITIONS, path, issues),
+        chance: readNumber(record, "chance", path, issues, { min: 0, max: 100 }),
+      };
+    case "field":
+      return { type: "field", ...readField(record, path, issues) };
+    default:
+      issues.push(
+        `${path}.type must be one of stage, heal, drain, energyDrain, status, field, got ${describe(record.type)}`,
+      );
+      return undefined;
+  }
+};
+
+export const parseMoves = (raw: unknown): Record<string, Move> => {
+  const issues: Issues = [];
+  const root = readRecord(raw, "moves.json", issues);
+  const entries = root ? readArray(root, "moves", "moves.json", issues) : [];
+
+  const moves = entries.flatMap((entry, index): Move[] => {
+    const path = `moves[${index}]`;
+    const record = readRecord(entry, path, issues);
+    if (!record) return [];
+    const effects = record.effects === undefined ? [] : readArray(record, "effects", path, issues);
+    const move: Move = {
+      name: readString(record, "name", path, issues),
+      type: readEnum(record, "type", MOVE_TYPES, path, issues),
+      power: readNumber(record, "power", path, issues, { min: 0, max: 250 }),
+      accuracy: readNumber(record, "accuracy", path, issues, { min: 1, max: 100 }),
+      cost: readNumber(record, "cost", path, issues, { min: 0, max: 100 }),
+      description: typeof record.description === "string" ? record.description : "",
+    };
+    if (record.priority !== undefined) {
+      move.priority = readNumber(record, "priority", path, issues, { min: -5, max: 5 });
+    }
+    const parsedEffects = effects.flatMap((effect, effectIndex) => {
+      const parsed = parseEffect(effect, `${path}.effects[${effectIndex}]`, issues);
+      return parsed ? [parsed] : [];
+    });
+    return [parsedEffects.length > 0 ? { ...move, effects: parsedEffects } : move];
+  });
+
+  checkUnique(
+    moves.map((move) => move.name),
+    "moves.json",
+    issues,
+  );
+  if (issues.length > 0) throw new ContentError("moves.json", issues);
+  return Object.fromEntries(moves.map((move) => [move.name, move]));
+};
+
+export const parseSpecies = (
+  raw: unknown,
+  moves: Record<string, Move>,
+): Record<string, Species> => {
+  const issues: Issues = [];
+  const root = readRecord(raw, "species.json", issues);
+  const entries = root ? readArray(root, "species", "species.json", issues) : [];
+
+  const species = entries.flatMap((entry, index): Species[] => {
+    const path = `species[${index}]`;
+    const record = readRecord(entry, path, issues);
+    if (!record) return [];
+    const types = readArray(record, "types", path, issues).map((type, typeIndex) =>
+      expectEnum(type, MOVE_TYPES, `${path}.types[${typeIndex}]`, issues),
+    );
+    if (types.length < 1 || types.length > 2) {
+      issues.push(`${path}.types must list one or two types`);
+    }
+    const learnset = readArray(record, "learnset", path, issues).map((name, moveIndex) => {
+      const movePath = `${path}.learnset[${moveIndex}]`;
+      if (typeof name !== "string" || !moves[name]) {
+        issues.push(`${movePath} refers to unknown move ${describe(name)}`);
+        return "";
+      }
+      return name;
+    });
+    checkUnique(learnset, `${path}.learnset`, issues);
+    return [
+      {
+        name: readString(record, "name", path, issues),
+        flair: readString(record, "flair", path, issues),
+        maxHp: readNumber(record, "maxHp", path, issues, { min: 1, max: 999 }),
+        speed: readNumber(record, "speed", path, issues, { min: 1, max: 255 }),
+        types,
+        learnset,
+      },
+    ];
+  });
+
+  checkUnique(
+    species.map((entry) => entry.name),
+    "species.json",
+    issues,
+  );
+  if (issues.length > 0) throw new ContentError("species.json", issues);
+  return Object.fromEntries(species.map((entry) => [entry.name, entry]));
+};
+
+export const parseTypeChart = (raw: unknown): TypeChart => {
+  const issues: Issues = [];
+  const root = readRecord(raw, "type-chart.json", issues);
+  const chart = root ? readRecord(root.chart, "type-chart.json.chart", issues) : undefined;
+  const parsed: TypeChart = {};
+
+  Object.entries(chart ?? {}).forEach(([attacking, row]) => {
+    const path = `chart.${attacking}`;
+    if (!MOVE_TYPES.includes(attacking as MoveType)) {
+      issues.push(`${path} is not a known type (expected one of ${MOVE_TYPES.join(", ")})`);
+      return;
+    }
+    const record = readRecord(row, path, issues);
+    if (!record) return;
+    parsed[attacking as MoveType] = Object.fromEntries(
+      Object.keys(record).flatMap((defending) => {
+        if (!MOVE_TYPES.includes(defending as MoveType)) {
+          issues.push(`${path}.${defending} is not a known type`);
+          return [];
+        }
+        return [[defending, readNumber(record, defending, path, issues, { min: 0, max: 8 })]];
+      }),
+    );
+  });
+
+  // Every type must attack and be attacked somewhere, so a new type can't be half-added.
+  MOVE_TYPES.forEach((type) => {
+    if (!parsed[type]) issues.push(`chart.${type} is missing (use {} for an all-neutral row)`);
+    if (!Object.values(parsed).some((row) => row && type in row)) {
+      issues.push(`chart has no row with a ${type} entry, so nothing is strong or weak against it`);
+    }
+  });
+
+  if (issues.length > 0) throw new ContentError("type-chart.json", issues);
+  return parsed;
+};
+
+export const MAX_BOOSTS: Record<BoostStat, number> = { maxHp: 200, speed: 100 };
+
+// Carried HP and boosts are only accepted where `progress` is set (gauntlet replays), so
+// team files and online teams can't smuggle them in.
+const readProgress = (
+  record: Record<string, unknown>,
+  path: string,
+  entry: Species | undefined,
+  issues: Issues,
+): Pick<TeamMemberSpec, "hp" | "boosts"> => {
+  const readWhole = (source: Record<string, unknown>, key: string, at: string, max: number) => {
+    const value = readNumber(source, key, at, issues, { min: key === "hp" ? 1 : 0, max });
+    if (!Number.isInteger(value)) issues.push(`${at}.${key} must be a whole number`);
+    return value;
+  };
+  const progress: Pick<TeamMemberSpec, "hp" | "boosts"> = {};
+  if (record.boosts !== undefined) {
+    const boosts = readRecord(record.boosts, `${path}.boosts`, issues) ?? {};
+    progress.boosts = Object.fromEntries(
+      (Object.keys(MAX_BOOSTS) as BoostStat[])
+        .filter((stat) => boosts[stat] !== undefined)
+        .map((stat) => [stat, readWhole(boosts, stat, `${path}.boosts`, MAX_BOOSTS[stat])]),
+    );
+  }
+  if (record.hp !== undefined) {
+    const maxHp = (entry?.maxHp ?? 1) + (progress.boosts?.maxHp ?? 0);
+    progress.hp = readWhole(record, "hp", path, maxHp);
+  }
+  return progress;
+};
+
+const parseMemberSpec = (
+  raw: unknown,
+  path: string,
+  species: Record<string, Species>,
+  issues: Issues,
+  progress: boolean,
+): TeamMemberSpec | undefined => {
+  const record = readRecord(raw, path, issues);
+  if (!record) return undefined;
+  const name = readString(record, "species", path, issues);
+  const entry = species[name];
+  if (name && !entry) issues.push(`${path}.species refers to unknown species "${name}"`);
+
+  const moves = readArray(record, "moves", path, issues).flatMap((move, index) => {
+    const movePath = `${path}.moves[${index}]`;
+    if (typeof move !== "string") {
+      issues.push(`${movePath} must be a move name, got ${describe(move)}`);
+      return [];
+    }
+    if (entry && !entry.learnset.includes(move)) {
+      issues.push(`${movePath}: ${entry.name} can’t learn "${move}"`);
+    }
+    return [move];
+  });
+  if (moves.length < 1 || moves.length > MAX_MOVES) {
+    issues.push(`${path}.moves must list between 1 and ${MAX_MOVES} moves`);
+  }
+  checkUnique(moves, `${path}.moves`, issues);
+  if (!progress) {
+    if (record.hp !== undefined || record.boosts !== undefined) {
+      issues.push(`${path} can’t carry hp or boosts outside a gauntlet run`);
+    }
+    return { species: name, moves };
+  }
+  return { species: name, moves, ...readProgress(record, path, entry, issues) };
+};
+
+const readTeam = (
+  raw: unknown,
+  path: string,
+  species: Record<string, Species>,
+  issues: Issues,
+  progress = false,
+): TeamSpec => {
+  const record = readRecord(raw, path, issues);
+  if (!record) return { members: [] };
+  const entries = readArray(record, "members", path, issues);
+  if (entries.length < 1 || entries.length > MAX_TEAM_SIZE) {
+    issues.push(`${path}.members must list between 1 and ${MAX_TEAM_SIZE} Pokémon`);
+  }
+  const members = entries.flatMap((entry, index) => {
+    const member = parseMemberSpec(entry, `${path}.members[${index}]`, species, issues, progress);
+    return member ? [member] : [];
+  });
+  return typeof record.name === "string" ? { name: record.name, members } : { members };
+};
+
+export const parseTeam = (
+  raw: unknown,
+  species: Record<string, Species>,
+  source = "team",
+  { progress = false }: { progress?: boolean } = {},
+): TeamSpec => {
+  const issues: Issues = [];
+  const team = readTeam(raw, source, species, issues, progress);
+  if (issues.length > 0) throw new ContentError(source, issues);
+  return team;
+};
+
+const MAX_TIMING = 10_000;
+
+export const parseRules = (raw: unknown, source = "rules"): BattleRules => {
+  const issues: Issues = [];
+  const record = readRecord(raw, source, issues) ?? {};
+  const timings = readRecord(record.timings, `${source}.timings`, issues) ?? {};
+  const readTiming = (key: string) =>
+    readNumber(timings, key, `${source}.timings`, issues, { min: 0, max: MAX_TIMING });
+  const field =
+    record.field === undefined ? undefined : readRecord(record.field, `${source}.field`, issues);
+  const rules: BattleRules = {
+    name: readString(record, "name", source, issues),
+    critChance: readNumber(record, "critChance", source, issues, { min: 0, max: 1 }),
+    critMultiplier: readNumber(record, "critMultiplier", source, issues, { min: 1, max: 4 }),
+    minVariance: readNumber(record, "minVariance", source, issues, { min: 0.1, max: 2 }),
+    maxVariance: readNumber(record, "maxVariance", source, issues, { min: 0.1, max: 2 }),
+    minDamage: readNumber(record, "minDamage", source, issues, { min: 0, max: 999 }),
+    maxDamage: readNumber(record, "maxDamage", source, issues, { min: 1, max: 999 }),
+    turnLimit: readNumber(record, "turnLimit", source, issues, { min: 0, max: 999 }),
+    teamSize: readNumber(record, "teamSize", source, issues, { min: 1, max: MAX_TEAM_SIZE }),
+    animations: record.animations !== false,
+    timings: {
+      impact: readTiming("impact"),
+      settle: readTiming("settle"),
+      aiDelay: readTiming("aiDelay"),
+    },
+    ...(field ? { field: readField(field, `${source}.field`, issues) } : {}),
+  };
+  if (rules.minVariance > rules.maxVariance) {
+    issues.push(`${source}.minVariance must not be above maxVariance`);
+  }
+  if (rules.minDamage > rules.maxDamage) {
+    issues.push(`${source}.minDamage must not be above maxDamage`);
+  }
+  if (!Number.isInteger(rules.turnLimit) || !Number.isInteger(rules.teamSize)) {
+    issues.push(`${source}.turnLimit and ${source}.teamSize must be whole numbers`);
+  }
+  if (issues.length > 0) throw new ContentError(source, issues);
+  return rules;
+};
+
+export const loadContent = (raw: {
+  moves: unknown;
+  species: unknown;
+  typeChart: unknown;
+  teams: unknown;
+}): BattleContent => {
+  const moves = parseMoves(raw.moves);
+  const species = parseSpecies(raw.species, moves);
+  const typeChart = parseTypeChart(raw.typeChart);
+
+  const issues: Issues = [];
+  const teams = readRecord(raw.teams, "default-teams.json", issues);
+  const player = readTeam(teams?.player, "player", species, issues);
+  const opponent = readTeam(teams?.opponent, "opponent", species, issues);
+  if (issues.length > 0) throw new ContentError("default-teams.json", issues);
+
+  return { moves, species, typeChart, teams: { player, opponent } };
+};
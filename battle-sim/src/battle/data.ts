@@ -0,0 +1,47 @@
+import defaultTeamsJson from "../content/default-teams.json";
+import movesJson from "../content/moves.json";
+import speciesJson from "../content/species.json";
+import typeChartJson from "../content/type-chart.json";
+import { loadContent, type BattleContent } from "./content";
+import type { BattlePokemon, Pokemon, TeamMemberSpec, TeamSpec, TypeChart } from "./types";
+
+export const CONTENT: BattleContent = loadContent({
+  moves: movesJson,
+  species: speciesJson,
+  typeChart: typeChartJson,
+  teams: defaultTeamsJson,
+});
+
+export const TYPE_CHART: TypeChart = CONTENT.typeChart;
+
+export const MAX_ENERGY = 100;
+
+export const createPokemon = (base: Omit<Pokemon, "hp">): BattlePokemon => ({
+  ...base,
+  hp: base.maxHp,
+  energy: MAX_ENERGY,
+  stages: { accuracy: 0, evasion: 0 },
+});
+
+export const memberMaxHp = (member: TeamMemberSpec, content: BattleContent = CONTENT) =>
+  content.species[member.species].maxHp + (member.boosts?.maxHp ?? 0);
+
+export const buildTeam = (spec: TeamSpec, content: BattleContent = CONTENT): BattlePokemon[] =>
+  spec.members.map((member) => {
+    const species = content.species[member.species];
+    const pokemon = createPokemon({
+      name: species.name,
+      maxHp: memberMaxHp(member, content),
+      speed: species.speed + (member.boosts?.speed ?? 0),
+      types: species.types,
+      flair: species.flair,
+      moves: member.moves.map((name) => content.moves[name]),
+    });
+    return member.hp === undefined
+      ? pokemon
+      : { ...pokemon, hp: Math.min(member.hp, pokemon.maxHp) };
+  });
+
+export const PLAYER_TEAM: BattlePokemon[] = buildTeam(CONTENT.teams.player);
+
+export const OPPONENT_TEAM: BattlePokemon[] = buildTeam(CONTENT.teams.opponent);
@@ -0,0 +1,184 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createPokemon } from "./data";
+import {
+  applyAction,
+  calculateDamage,
+  createBattle,
+  detectVictor,
+  ENERGY_REGEN,
+  previewDamage,
+  REST_ENERGY,
+  typeMultiplier,
+} from "./engine";
+import { createRng } from "./rng";
+import { CLASSIC_RULES } from "./rules";
+import type { BattleAction, BattlePokemon, BattleState, Move, MoveType } from "./types";
+
+const move = (type: MoveType, power = 40, cost = 0): Move => ({
+  name: `${type} Test`,
+  type,
+  power,
+  accuracy: 100,
+  cost,
+  description: "",
+});
+
+const pokemon = (name: string, types: MoveType[], moves: Move[] = []): BattlePokemon =>
+  createPokemon({ name, maxHp: 100, speed: 50, types, moves, flair: "" });
+
+describe("typeMultiplier", () => {
+  it("reads single-type matchups from the chart", () => {
+    assert.equal(typeMultiplier("Fire", ["Grass"]), 2);
+    assert.equal(typeMultiplier("Fire", ["Water"]), 0.5);
+    assert.equal(typeMultiplier("Fire", ["Normal"]), 1);
+  });
+
+  it("multiplies across both defending types", () => {
+    assert.equal(typeMultiplier("Fire", ["Grass", "Steel"]), 4);
+    assert.equal(typeMultiplier("Fire", ["Grass", "Water"]), 1);
+  });
+
+  it("treats immunities as 0× whatever the other type", () => {
+    assert.equal(typeMultiplier("Normal", ["Ghost"]), 0);
+    assert.equal(typeMultiplier("Electric", ["Water", "Ground"]), 0);
+  });
+});
+
+describe("calculateDamage", () => {
+  const attacker = pokemon("Attacker", ["Normal"]);
+  const defender = pokemon("Defender", ["Normal"]);
+
+  it("rolls the same damage for the same seed", () => {
+    const roll = () => calculateDamage(move("Fire"), attacker, defender, createRng(42));
+    assert.deepEqual(roll(), roll());
+  });
+
+  it("stays within the previewed range across seeds", () => {
+    const preview = previewDamage(move("Fire"), attacker, defender);
+    for (let seed = 0; seed < 200; seed += 1) {
+      const { damage, crit } = calculateDamage(move("Fire"), attacker, defender, createRng(seed));
+      const [min, max] = crit ? [preview.critMin, preview.critMax] : [preview.min, preview.max];
+      assert.ok(damage >= min && damage <= max, `seed ${seed}: ${damage} outside ${min}–${max}`);
+    }
+  });
+
+  it("deals nothing to an immune defender", () => {
+    const ghost = pokemon("Ghost", ["Ghost"]);
+    const result = calculateDamage(move("Normal"), attacker, ghost, createRng(1));
+    assert.equal(result.damage, 0);
+    assert.equal(result.effectiveness, 0);
+  });
+
+  it("reports super-effective hits and hits harder than neutral ones", () => {
+    const grass = pokemon("Grass", ["Grass"]);
+    const strong = calculateDamage(move("Fire"), attacker, grass, createRng(7));
+    const neutral = calculateDamage(move("Fire"), attacker, defender, createRng(7));
+    assert.equal(strong.effectiveness, 2);
+    assert.ok(strong.damage > neutral.damage);
+  });
+
+  it("adds STAB when the move shares a type with its user", () => {
+    const fire = pokemon("Fire", ["Fire"]);
+    const stab = calculateDamage(move("Fire"), fire, defender, createRng(3));
+    const plain = calculateDamage(move("Fire"), attacker, defender, createRng(3));
+    assert.ok(stab.damage > plain.damage);
+  });
+
+  it("clamps damage to the rules' bounds", () => {
+    const huge = calculateDamage(move("Fire", 999), attacker, defender, createRng(5));
+    assert.equal(huge.damage, CLASSIC_RULES.maxDamage);
+    assert.equal(huge.clamped, "max");
+    const tiny = calculateDamage(move("Fire", 1), attacker, defender, createRng(5));
+    assert.equal(tiny.damage, CLASSIC_RULES.minDamage);
+    assert.equal(tiny.clamped, "min");
+  });
+});
+
+describe("detectVictor and applyAction", () => {
+  const duel = (foeHp: number) => {
+    const player = pokemon("Striker", ["Normal"], [move("Fighting", 60)]);
+    const foe = { ...pokemon("Target", ["Normal"], [move("Normal")]), hp: foeHp };
+    return createBattle(9, [player], [foe]);
+  };
+
+  it("finds no victor while both teams can fight", () => {
+    assert.equal(detectVictor(duel(100)), undefined);
+  });
+
+  it("names the side whose foe has no Pokémon left", () => {
+    const state = duel(100);
+    const fainted = {
+      ...state,
+      opponent: {
+        ...state.opponent,
+        members: state.opponent.members.map((member) => ({ ...member, hp: 0 })),
+      },
+    };
+    assert.equal(detectVictor(fainted), "player");
+  });
+
+  it("waits for both sides before resolving a turn", () => {
+    const { state, events } = applyAction(duel(100), { type: "rest", side: "player" });
+    assert.deepEqual(events, [{ type: "ActionSelected", side: "player" }]);
+    assert.equal(state.turn, 1);
+  });
+
+  it("declares victory when the last foe faints", () => {
+    const selected = applyAction(duel(1), { type: "move", side: "player", moveIndex: 0 });
+    const { state, events } = applyAction(selected.state, { type: "rest", side: "opponent" });
+    const types = events.map((event) => event.type);
+    assert.ok(types.includes("Fainted"));
+    assert.deepEqual(events[events.length - 1], { type: "Victory", side: "player" });
+    assert.equal(state.victor, "player");
+    assert.equal(applyAction(state, { type: "rest", side: "player" }).events.length, 0);
+  });
+
+  it("leaves the states it was given untouched while resolving a turn", () => {
+    const start = duel(100);
+    const snapshot = structuredClone(start);
+    const selected = applyAction(start, { type: "move", side: "player", moveIndex: 0 }).state;
+    const selectedSnapshot = structuredClone(selected);
+    const resolved = applyAction(selected, { type: "rest", side: "opponent" }).state;
+    assert.equal(resolved.turn, 2);
+    assert.ok(resolved.opponent.members[0].hp < 100);
+    assert.deepEqual(start, snapshot);
+    assert.deepEqual(selected, selectedSnapshot);
+  });
+});
+
+describe("energy", () => {
+  const drained = (name: string, moves: Move[] = [move("Normal")]) => ({
+    ...pokemon(name, ["Normal"], moves),
+    energy: 20,
+  });
+
+  const turn = (state: BattleState, player: BattleAction, foe: BattleAction) =>
+    applyAction(applyAction(state, player).state, foe).state;
+
+  it("regenerates for both sides every turn, whatever they chose", () => {
+    const start = createBattle(4, [drained("Lead"), drained("Bench")], [drained("Foe")]);
+    const next = turn(
+      start,
+      { type: "switch", side: "player", index: 1 },
+      { type: "rest", side: "opponent" },
+    );
+    assert.equal(next.player.members[1].energy, 20 + ENERGY_REGEN);
+    assert.equal(next.player.members[0].energy, 20);
+    assert.equal(next.opponent.members[0].energy, 20 + REST_ENERGY + ENERGY_REGEN);
+  });
+
+  it("charges a move's cost before the turn's regeneration", () => {
+    const start = createBattle(
+      4,
+      [drained("Striker", [move("Normal", 1, 15)])],
+      [drained("Foe", [move("Normal", 1)])],
+    );
+    const next = turn(
+      start,
+      { type: "move", side: "player", moveIndex: 0 },
+      { type: "rest", side: "opponent" },
+    );
+    assert.equal(next.player.members[0].energy, 20 - 15 + ENERGY_REGEN);
+  });
+});
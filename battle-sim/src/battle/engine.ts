@@ -0,0 +1,697 @@
+import { MAX_TEAM_SIZE } from "./content";
+import { MAX_ENERGY, OPPONENT_TEAM, PLAYER_TEAM, TYPE_CHART } from "./data";
+import { createRng, randomSeed, type Rng } from "./rng";
+import { CLASSIC_RULES } from "./rules";
+import {
+  SIDES,
+  type BattleAction,
+  type BattleEvent,
+  type BattlePokemon,
+  type BattleResult,
+  type BattleRules,
+  type BattleState,
+  type BattleStep,
+  type BattleTeam,
+  type DamageClamp,
+  type DamagePreview,
+  type Field,
+  type FieldCondition,
+  type Move,
+  type MoveEffect,
+  type MoveType,
+  type Pokemon,
+  type Side,
+  type StatStages,
+  type DamageCause,
+  type StatusCondition,
+  type TurnOrderEntry,
+} from "./types";
+
+export const MAX_STAGE = 6;
+export const ENERGY_REGEN = 10;
+export const REST_ENERGY = 35;
+export const SWITCH_PRIORITY = 6;
+export const STAB_MULTIPLIER = 1.5;
+
+const BURN_DAMAGE = 1 / 16;
+const HAIL_DAMAGE = 1 / 16;
+const CONFUSION_DAMAGE = 1 / 10;
+const CONFUSION_SELF_HIT = 1 / 3;
+const PARALYSIS_SKIP = 0.25;
+const THAW_CHANCE = 0.2;
+
+// Salts the AI's dice so choosing an action never advances (or mirrors) the battle's own RNG.
+const AI_SALT: Record<Side, number> = { player: 0x9e3779b9, opponent: 0x85ebca6b };
+
+const STATUS_IMMUNITIES: Partial<Record<StatusCondition, MoveType>> = {
+  burn: "Fire",
+  paralysis: "Electric",
+  freeze: "Ice",
+};
+
+// Move types each field strengthens or weakens.
+const FIELD_MULTIPLIERS: Record<FieldCondition, Partial<Record<MoveType, number>>> = {
+  sun: { Fire: 1.5, Water: 0.5 },
+  rain: { Water: 1.5, Fire: 0.5 },
+  hail: {},
+  psychic: { Psychic: 1.3 },
+};
+
+export const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+export const opposingSide = (side: Side): Side => (side === "player" ? "opponent" : "player");
+
+export const createTeam = (members: BattlePokemon[], size = MAX_TEAM_SIZE): BattleTeam => ({
+  members: members.slice(0, size).map((member) => ({ ...member })),
+  active: 0,
+});
+
+export const createBattle = (
+  seed: number = randomSeed(),
+  playerTeam: BattlePokemon[] = PLAYER_TEAM,
+  opponentTeam: BattlePokemon[] = OPPONENT_TEAM,
+  rules: BattleRules = CLASSIC_RULES,
+): BattleState => ({
+  player: createTeam(playerTeam, rules.teamSize),
+  opponent: createTeam(opponentTeam, rules.teamSize),
+  turn: 1,
+  choices: {},
+  pendingSwitches: [],
+  seed,
+  rng: seed,
+  rules,
+  ...(rules.field ? { field: { ...rules.field } } : {}),
+});
+
+export const typeMultiplier = (moveType: MoveType, defendingTypes: MoveType[]) =>
+  defendingTypes.reduce((product, typing) => product * (TYPE_CHART[moveType]?.[typing] ?? 1), 1);
+
+export const stageMultiplier = (stage: number) => {
+  const bounded = clamp(stage, -MAX_STAGE, MAX_STAGE);
+  return bounded >= 0 ? (3 + bounded) / 3 : 3 / (3 - bounded);
+};
+
+export const hitChance = (
+  move: Move,
+  attacker: { stages: StatStages },
+  defender: { stages: StatStages },
+) => {
+  const stage = attacker.stages.accuracy - defender.stages.evasion;
+  return clamp((move.accuracy / 100) * stageMultiplier(stage), 0, 1);
+};
+
+// Same-type attack bonus: a move hits harder when it shares a type with its user.
+export const stabMultiplier = (move: Move, attacker: { types: MoveType[] }) =>
+  attacker.types.includes(move.type) ? STAB_MULTIPLIER : 1;
+
+export const fieldMultiplier = (moveType: MoveType, field?: Field) =>
+  (field && FIELD_MULTIPLIERS[field.condition][moveType]) ?? 1;
+
+const rollDamage = (
+  power: number,
+  variation: number,
+  crit: boolean,
+  multiplier: number,
+  rules: BattleRules,
+) => {
+  if (multiplier === 0) return { damage: 0, clamped: undefined };
+  const damage = Math.round(power * variation * (crit ? rules.critMultiplier : 1) * multiplier);
+  const clamped: DamageClamp | undefined =
+    damage < rules.minDamage ? "min" : damage > rules.maxDamage ? "max" : undefined;
+  return { damage: clamp(damage, rules.minDamage, rules.maxDamage), clamped };
+};
+
+export const calculateDamage = (
+  move: Move,
+  attacker: Pokemon,
+  defender: Pokemon,
+  rng: Rng,
+  rules: BattleRules = CLASSIC_RULES,
+  field?: Field,
+): { damage: number; effectiveness: number; crit: boolean; clamped?: DamageClamp } => {
+  const variation = rules.minVariance + rng.next() * (rules.maxVariance - rules.minVariance);
+  const crit = rng.next() < rules.critChance;
+  const multiplier = typeMultiplier(move.type, defender.types);
+  const { damage, clamped } = rollDamage(
+    move.power,
+    variation,
+    crit,
+    multiplier * stabMultiplier(move, attacker) * fieldMultiplier(move.type, field),
+    rules,
+  );
+
+  return {
+    damage,
+    effectiveness: multiplier,
+    crit,
+    ...(clamped ? { clamped } : {}),
+  };
+};
+
+// Everything calculateDamage could roll for this matchup, without touching the RNG.
+export const previewDamage = (
+  move: Move,
+  attacker: Pokemon & { stages: StatStages },
+  defender: Pokemon & { stages: StatStages },
+  rules: BattleRules = CLASSIC_RULES,
+  field?: Field,
+): DamagePreview => {
+  const multiplier = typeMultiplier(move.type, defender.types);
+  const stab = stabMultiplier(move, attacker);
+  const weather = fieldMultiplier(move.type, field);
+  const roll = (variation: number, crit: boolean) =>
+    rollDamage(move.power, variation, crit, multiplier * stab * weather, rules);
+  const low = roll(rules.minVariance, false);
+  const high = roll(rules.maxVariance, false);
+  const critLow = roll(rules.minVariance, true);
+  const critHigh = roll(rules.maxVariance, true);
+  return {
+    min: low.damage,
+    max: high.damage,
+    critMin: critLow.damage,
+    critMax: critHigh.damage,
+    critChance: rules.critChance,
+    hitChance: multiplier === 0 ? 0 : hitChance(move, attacker, defender),
+    multiplier,
+    stab: stab !== 1,
+    fieldMultiplier: weather,
+    matchups: defender.types.map((type) => ({ type, multiplier: typeMultiplier(move.type, [type]) })),
+    clampedLow: low.clamped === "min",
+    clampedHigh: critHigh.clamped === "max",
+  };
+};
+
+export const canAfford = (pokemon: BattlePokemon, move: Move) => pokemon.energy >= move.cost;
+
+export const activePokemon = (state: BattleState, side: Side) =>
+  state[side].members[state[side].active];
+
+export const isTeamDown = (team: BattleTeam) => team.members.every((member) => member.hp <= 0);
+
+export const canSwitchTo = (state: BattleState, side: Side, index: number) => {
+  const team = state[side];
+  const member = team.members[index];
+  return index !== team.active && member !== undefined && member.hp > 0;
+};
+
+export const effectiveSpeed = (pokemon: BattlePokemon) =>
+  pokemon.status?.condition === "paralysis" ? Math.floor(pokemon.speed / 2) : pokemon.speed;
+
+export const actionPriority = (state: BattleState, action: BattleAction) => {
+  if (action.type === "switch") return SWITCH_PRIORITY;
+  if (action.type === "rest") return 0;
+  return activePokemon(state, action.side).moves[action.moveIndex]?.priority ?? 0;
+};
+
+export const needsAction = (state: BattleState, side: Side) => {
+  if (state.victor) return false;
+  if (state.pendingSwitches.length > 0) return state.pendingSwitches.includes(side);
+  return state.choices[side] === undefined;
+};
+
+export const legalActions = (state: BattleState, side: Side): BattleAction[] => {
+  if (!needsAction(state, side)) return [];
+  const switches = state[side].members.flatMap((_, index): BattleAction[] =>
+    canSwitchTo(state, side, index) ? [{ type: "switch", side, index }] : [],
+  );
+  if (state.pendingSwitches.length > 0) return switches;
+
+  const pokemon = activePokemon(state, side);
+  const moves = pokemon.moves.flatMap((move, moveIndex): BattleAction[] =>
+    canAfford(pokemon, move) ? [{ type: "move", side, moveIndex }] : [],
+  );
+  return [...moves, { type: "rest", side }, ...switches];
+};
+
+// `turn` is the turn about to be played, so a finished battle has played one fewer.
+export const turnsPlayed = (state: BattleState) => state.turn - 1;
+
+export const detectVictor = (state: BattleState): Side | undefined => {
+  if (isTeamDown(state.opponent)) return "player";
+  if (isTeamDown(state.player)) return "opponent";
+  return undefined;
+};
+
+const remainingHp = (team: BattleTeam) =>
+  team.members.reduce((total, member) => total + Math.max(0, member.hp) / member.maxHp, 0) /
+  team.members.length;
+
+// Settles a battle that ran out of turns: the larger share of team HP wins, ties by coin flip.
+const leadingSide = (state: BattleState, rng: Rng): Side => {
+  const player = remainingHp(state.player);
+  const opponent = remainingHp(state.opponent);
+  if (player === opponent) return rng.next() < 0.5 ? "player" : "opponent";
+  return player > opponent ? "player" : "opponent";
+};
+
+const updatePokemon = (
+  state: BattleState,
+  side: Side,
+  patch: Partial<BattlePokemon>,
+): BattleState => {
+  const team = state[side];
+  return {
+    ...state,
+    [side]: {
+      ...team,
+      members: team.members.map((member, index) =>
+        index === team.active ? { ...member, ...patch } : member,
+      ),
+    },
+  };
+};
+
+const damagePokemon = (
+  state: BattleState,
+  side: Side,
+  amount: number,
+  events: BattleEvent[],
+  detail: { cause?: DamageCause; clamped?: DamageClamp } = {},
+): BattleState => {
+  const pokemon = activePokemon(state, side);
+  const hp = clamp(pokemon.hp - amount, 0, pokemon.maxHp);
+  events.push({
+    type: "Damage",
+    side,
+    pokemon: pokemon.name,
+    amount: pokemon.hp - hp,
+    hp,
+    maxHp: pokemon.maxHp,
+    ...(detail.cause ? { cause: detail.cause } : {}),
+    ...(detail.clamped ? { clamped: detail.clamped } : {}),
+  });
+  return updatePokemon(state, side, { hp });
+};
+
+const healPokemon = (
+  state: BattleState,
+  side: Side,
+  amount: number,
+  events: BattleEvent[],
+): BattleState => {
+  const pokemon = activePokemon(state, side);
+  const hp = clamp(pokemon.hp + amount, 0, pokemon.maxHp);
+  if (hp === pokemon.hp) return state;
+  events.push({
+    type: "Healed",
+    side,
+    pokemon: pokemon.name,
+    amount: hp - pokemon.hp,
+    hp,
+    maxHp: pokemon.maxHp,
+  });
+  return updatePokemon(state, side, { hp });
+};
+
+const rollChance = (chance: number | undefined, rng: Rng) =>
+  chance === undefined || rng.next() * 100 < chance;
+
+const applyMoveEffect = (
+  state: BattleState,
+  side: Side,
+  effect: MoveEffect,
+  damage: number,
+  rng: Rng,
+  events: BattleEvent[],
+): BattleState => {
+  const foeSide = opposingSide(side);
+  const foe = activePokemon(state, foeSide);
+
+  switch (effect.type) {
+    case "heal":
+      return healPokemon(
+        state,
+        side,
+        Math.round((activePokemon(state, side).maxHp * effect.percent) / 100),
+        events,
+      );
+    case "drain":
+      return healPokemon(state, side, Math.round(damage * effect.ratio), events);
+    case "energyDrain": {
+      const amount = Math.min(foe.energy, effect.amount);
+      if (amount === 0) return state;
+      events.push({
+        type: "EnergyDrained",
+        side: foeSide,
+        pokemon: foe.name,
+        by: activePokemon(state, side).name,
+        amount,
+      });
+      const drained = updatePokemon(state, foeSide, { energy: foe.energy - amount });
+      return updatePokemon(drained, side, {
+        energy: clamp(activePokemon(state, side).energy + amount, 0, MAX_ENERGY),
+      });
+    }
+    case "status": {
+      const immunity = STATUS_IMMUNITIES[effect.condition];
+      if (foe.hp <= 0 || foe.status || (immunity && foe.types.includes(immunity))) return state;
+      if (!rollChance(effect.chance, rng)) return state;
+      events.push({
+        type: "StatusInflicted",
+        side: foeSide,
+        pokemon: foe.name,
+        condition: effect.condition,
+      });
+      const turns = effect.condition === "confusion" ? 2 + Math.floor(rng.next() * 3) : 0;
+      return updatePokemon(state, foeSide, { status: { condition: effect.condition, turns } });
+    }
+    case "field":
+      if (state.field?.condition === effect.condition) return state;
+      events.push({ type: "FieldStarted", side, condition: effect.condition, turns: effect.turns });
+      return { ...state, field: { condition: effect.condition, turns: effect.turns } };
+    case "stage": {
+      const target = effect.target === "self" ? side : foeSide;
+      const pokemon = activePokemon(state, target);
+      if (pokemon.hp <= 0 || !rollChance(effect.chance, rng)) return state;
+
+      const stage = clamp(pokemon.stages[effect.stat] + effect.stages, -MAX_STAGE, MAX_STAGE);
+      events.push({
+        type: "StatStage",
+        side: target,
+        pokemon: pokemon.name,
+        stat: effect.stat,
+        change: stage - pokemon.stages[effect.stat],
+        stage,
+      });
+      return updatePokemon(state, target, {
+        stages: { ...pokemon.stages, [effect.stat]: stage },
+      });
+    }
+  }
+};
+
+const checkStatus = (
+  state: BattleState,
+  side: Side,
+  rng: Rng,
+  events: BattleEvent[],
+): { state: BattleState; canAct: boolean } => {
+  const pokemon = activePokemon(state, side);
+  const status = pokemon.status;
+  if (!status) return { state, canAct: true };
+
+  const { condition } = status;
+  const blocked = () => {
+    events.push({ type: "StatusBlocked", side, pokemon: pokemon.name, condition });
+  };
+  const cured = () => {
+    events.push({ type: "StatusCured", side, pokemon: pokemon.name, condition });
+    return updatePokemon(state, side, { status: undefined });
+  };
+
+  switch (condition) {
+    case "freeze":
+      if (rng.next() < THAW_CHANCE) return { state: cured(), canAct: true };
+      blocked();
+      return { state, canAct: false };
+    case "paralysis":
+      if (rng.next() >= PARALYSIS_SKIP) return { state, canAct: true };
+      blocked();
+      return { state, canAct: false };
+    case "confusion": {
+      if (status.turns <= 0) return { state: cured(), canAct: true };
+      const next = updatePokemon(state, side, { status: { condition, turns: status.turns - 1 } });
+      if (rng.next() >= CONFUSION_SELF_HIT) return { state: next, canAct: true };
+      blocked();
+      const amount = Math.max(1, Math.round(pokemon.maxHp * CONFUSION_DAMAGE));
+      return { state: damagePokemon(next, side, amount, events, { cause: condition }), canAct: false };
+    }
+    default:
+      return { state, canAct: true };
+  }
+};
+
+const tickStatus = (state: BattleState, side: Side, events: BattleEvent[]): BattleState => {
+  const pokemon = activePokemon(state, side);
+  if (pokemon.hp <= 0 || pokemon.status?.condition !== "burn") return state;
+  const amount = Math.max(1, Math.round(pokemon.maxHp * BURN_DAMAGE));
+  return damagePokemon(state, side, amount, events, { cause: "burn" });
+};
+
+// Hail chips every active non-Ice Pokémon, then the field counts down and ends at zero.
+const tickField = (state: BattleState, sides: Side[], events: BattleEvent[]): BattleState => {
+  const { field } = state;
+  if (!field) return state;
+  const weathered =
+    field.condition !== "hail"
+      ? state
+      : sides.reduce((current, side) => {
+          const pokemon = activePokemon(current, side);
+          if (pokemon.hp <= 0 || pokemon.types.includes("Ice")) return current;
+          const amount = Math.max(1, Math.round(pokemon.maxHp * HAIL_DAMAGE));
+          return damagePokemon(current, side, amount, events, { cause: "hail" });
+        }, state);
+  if (field.turns > 1) return { ...weathered, field: { ...field, turns: field.turns - 1 } };
+  events.push({ type: "FieldEnded", condition: field.condition });
+  return { ...weathered, field: undefined };
+};
+
+const resolveMove = (
+  state: BattleState,
+  side: Side,
+  move: Move,
+  rng: Rng,
+  events: BattleEvent[],
+): BattleState => {
+  const attacker = activePokemon(state, side);
+  const defenderSide = opposingSide(side);
+  const defender = activePokemon(state, defenderSide);
+  events.push({ type: "MoveUsed", side, pokemon: attacker.name, move });
+  let next = updatePokemon(state, side, {
+    energy: clamp(attacker.energy - move.cost, 0, MAX_ENERGY),
+  });
+
+  if (typeMultiplier(move.type, defender.types) === 0) {
+    events.push({
+      type: "Effectiveness",
+      side: defenderSide,
+      pokemon: defender.name,
+      multiplier: 0,
+    });
+    return next;
+  }
+
+  if (rng.next() >= hitChance(move, attacker, defender)) {
+    events.push({ type: "Missed", side, pokemon: attacker.name });
+    return next;
+  }
+
+  const { damage, effectiveness, crit, clamped } = calculateDamage(
+    move,
+    attacker,
+    defender,
+    rng,
+    state.rules,
+    state.field,
+  );
+  if (crit) events.push({ type: "Crit", side: defenderSide });
+  if (effectiveness !== 1) {
+    events.push({
+      type: "Effectiveness",
+      side: defenderSide,
+      pokemon: defender.name,
+      multiplier: effectiveness,
+    });
+  }
+  next = damagePokemon(next, defenderSide, damage, events, clamped ? { clamped } : {});
+  const dealt = defender.hp - activePokemon(next, defenderSide).hp;
+
+  return (move.effects ?? []).reduce(
+    (current, effect) => applyMoveEffect(current, side, effect, dealt, rng, events),
+    next,
+  );
+};
+
+const resolveSwitch = (
+  state: BattleState,
+  side: Side,
+  index: number,
+  forced: boolean,
+  events: BattleEvent[],
+): BattleState => {
+  const outgoing = activePokemon(state, side);
+  const reset = updatePokemon(state, side, { stages: { accuracy: 0, evasion: 0 } });
+  events.push({
+    type: "Switched",
+    side,
+    from: outgoing.name,
+    to: state[side].members[index].name,
+    forced,
+  });
+  return { ...reset, [side]: { ...reset[side], active: index } };
+};
+
+const resolveRest = (state: BattleState, side: Side, events: BattleEvent[]): BattleState => {
+  const pokemon = activePokemon(state, side);
+  const energy = clamp(pokemon.energy + REST_ENERGY, 0, MAX_ENERGY);
+  events.push({ type: "Rested", side, pokemon: pokemon.name, energy });
+  return updatePokemon(state, side, { energy });
+};
+
+const isValidChoice = (state: BattleState, action: BattleAction) => {
+  const pokemon = activePokemon(state, action.side);
+  if (pokemon.hp <= 0) return false;
+  if (action.type === "switch") return canSwitchTo(state, action.side, action.index);
+  if (action.type === "rest") return true;
+  const move = pokemon.moves[action.moveIndex];
+  return move !== undefined && canAfford(pokemon, move);
+};
+
+const resolveChoice = (
+  state: BattleState,
+  action: BattleAction,
+  rng: Rng,
+  events: BattleEvent[],
+): BattleState => {
+  const { side } = action;
+  if (action.type === "switch") return resolveSwitch(state, side, action.index, false, events);
+
+  const checked = checkStatus(state, side, rng, events);
+  if (!checked.canAct) return checked.state;
+  if (action.type === "rest") return resolveRest(checked.state, side, events);
+  const move = activePokemon(checked.state, side).moves[action.moveIndex];
+  return resolveMove(checked.state, side, move, rng, events);
+};
+
+// Every active Pokémon still standing regains energy once a turn, whatever its side did.
+const regenerate = (state: BattleState): BattleState =>
+  SIDES.reduce((current, side) => {
+    const pokemon = activePokemon(current, side);
+    if (pokemon.hp <= 0) return current;
+    return updatePokemon(current, side, {
+      energy: clamp(pokemon.energy + ENERGY_REGEN, 0, MAX_ENERGY),
+    });
+  }, state);
+
+const markFainted = (state: BattleState, events: BattleEvent[]): BattleState =>
+  SIDES.reduce((current, side) => {
+    const pokemon = activePokemon(current, side);
+    if (pokemon.hp > 0 || current.pendingSwitches.includes(side)) return current;
+    events.push({ type: "Fainted", side, pokemon: pokemon.name });
+    return { ...current, pendingSwitches: [...current.pendingSwitches, side] };
+  }, state);
+
+// Switches go first, then higher priority, then higher speed; exact ties are a coin flip.
+const orderChoices = (state: BattleState, rng: Rng) => {
+  const [first, second] = SIDES.map((side) => state.choices[side] as BattleAction);
+  const rank = (action: BattleAction) => ({
+    priority: actionPriority(state, action),
+    speed: effectiveSpeed(activePokemon(state, action.side)),
+  });
+  const a = rank(first);
+  const b = rank(second);
+  const tie = a.priority === b.priority && a.speed === b.speed;
+  const firstLeads = tie
+    ? rng.next() < 0.5
+    : a.priority !== b.priority
+      ? a.priority > b.priority
+      : a.speed > b.speed;
+  const order = firstLeads ? [first, second] : [second, first];
+  const entries: TurnOrderEntry[] = order.map((action) => ({
+    side: action.side,
+    pokemon: activePokemon(state, action.side).name,
+    ...rank(action),
+  }));
+  return { order, entries, tie };
+};
+
+const resolveTurn = (state: BattleState): BattleResult => {
+  const rng = createRng(state.rng);
+  const { order, entries, tie } = orderChoices(state, rng);
+  const steps: BattleStep[] = [];
+  let events: BattleEvent[] = [{ type: "TurnOrder", turn: state.turn, order: entries, tie }];
+  let next: BattleState = { ...state, choices: {} };
+
+  for (const action of order) {
+    if (next.pendingSwitches.includes(action.side)) continue;
+    if (action.type === "move" && next.pendingSwitches.includes(opposingSide(action.side))) continue;
+    next = markFainted(resolveChoice(next, action, rng, events), events);
+    steps.push({ state: { ...next, rng: rng.state }, events });
+    events = [];
+    if (detectVictor(next)) break;
+  }
+
+  if (!detectVictor(next)) {
+    next = regenerate(next);
+    next = order.reduce((current, action) => tickStatus(current, action.side, events), next);
+    next = tickField(next, order.map((action) => action.side), events);
+    next = markFainted(next, events);
+  }
+
+  let victor = detectVictor(next);
+  const { turnLimit } = state.rules;
+  if (!victor && turnLimit > 0 && state.turn >= turnLimit) {
+    events.push({ type: "TurnLimit", turn: state.turn });
+    victor = leadingSide(next, rng);
+  }
+  next = { ...next, turn: state.turn + 1, rng: rng.state };
+  if (victor) {
+    next = { ...next, victor, pendingSwitches: [] };
+    events.push({ type: "Victory", side: victor });
+  }
+  if (events.length > 0 || steps.length === 0) {
+    steps.push({ state: next, events });
+  } else {
+    steps[steps.length - 1] = { ...steps[steps.length - 1], state: next };
+  }
+
+  return { state: next, events: steps.flatMap((step) => step.events), steps };
+};
+
+const unchanged = (state: BattleState): BattleResult => ({ state, events: [], steps: [] });
+
+const settled = (state: BattleState, events: BattleEvent[]): BattleResult => ({
+  state,
+  events,
+  steps: [{ state, events }],
+});
+
+export const applyAction = (state: BattleState, action: BattleAction): BattleResult => {
+  const { side } = action;
+  if (state.victor) return unchanged(state);
+
+  if (state.pendingSwitches.length > 0) {
+    if (
+      action.type !== "switch" ||
+      !state.pendingSwitches.includes(side) ||
+      !canSwitchTo(state, side, action.index)
+    ) {
+      return unchanged(state);
+    }
+    const events: BattleEvent[] = [];
+    const next = resolveSwitch(state, side, action.index, true, events);
+    return settled(
+      { ...next, pendingSwitches: state.pendingSwitches.filter((current) => current !== side) },
+      events,
+    );
+  }
+
+  if (state.choices[side] || !isValidChoice(state, action)) return unchanged(state);
+  const next: BattleState = { ...state, choices: { ...state.choices, [side]: action } };
+  if (!next.choices[opposingSide(side)]) {
+    return settled(next, [{ type: "ActionSelected", side }]);
+  }
+  return resolveTurn(next);
+};
+
+export const randomAction = (state: BattleState, side: Side): BattleAction => {
+  const rng = createRng(state.rng ^ AI_SALT[side]);
+
+  if (state.pendingSwitches.includes(side)) {
+    const candidates = state[side].members.flatMap((_, index) =>
+      canSwitchTo(state, side, index) ? [index] : [],
+    );
+    const index = candidates[Math.floor(rng.next() * candidates.length)];
+    return { type: "switch", side, index };
+  }
+
+  const pokemon = activePokemon(state, side);
+  const affordable = pokemon.moves.flatMap((move, moveIndex) =>
+    canAfford(pokemon, move) ? [moveIndex] : [],
+  );
+  if (affordable.length === 0) return { type: "rest", side };
+
+  const moveIndex = affordable[Math.floor(rng.next() * affordable.length)];
+  return { type: "move", side, moveIndex };
+};
@@ -0,0 +1,222 @@
+import type { Difficulty } from "./ai";
+import { MAX_BOOSTS, MAX_MOVES, MAX_TEAM_SIZE, type BattleContent } from "./content";
+import { CONTENT, memberMaxHp } from "./data";
+import { turnsPlayed } from "./engine";
+import { createReplay } from "./replay";
+import { CLASSIC_RULES } from "./rules";
+import { createRng, type Rng } from "./rng";
+import type {
+  BattleRules,
+  BattleState,
+  BoostStat,
+  Replay,
+  TeamMemberSpec,
+  TeamSpec,
+} from "./types";
+
+export type GauntletReward =
+  | { kind: "move"; member: number; move: string; replaces?: string }
+  | { kind: "boost"; member: number; stat: BoostStat; amount: number }
+  | { kind: "heal"; share: number };
+
+export interface GauntletFight {
+  stage: number;
+  seed: number;
+  opponent: string[];
+  turns: number;
+  won: boolean;
+}
+
+// `team` is the whole roster with its carried HP and boosts; fainted members stay on it at
+// 0 HP and sit out fights until a heal brings them back.
+export interface GauntletRun {
+  seed: number;
+  rules: BattleRules;
+  team: TeamSpec;
+  stage: number;
+  fights: GauntletFight[];
+  rewards: GauntletReward[];
+  over: boolean;
+}
+
+const BOOST_AMOUNTS: Record<BoostStat, number> = { maxHp: 30, speed: 10 };
+const HEAL_SHARE = 0.5;
+// Opponents stop growing here, keeping their boosts within what a replay accepts.
+const MAX_GROWTH_STAGE = 12;
+
+// Every stage gets its own generator from the run seed, so stage 3 of a seed always brings
+// the same opponent no matter which rewards were picked on the way.
+const stageRng = (run: GauntletRun, stage: number, salt: number) =>
+  createRng((run.seed ^ Math.imul(stage + 1, 0x9e3779b1) ^ salt) >>> 0);
+
+const pick = <T>(rng: Rng, items: T[]) => items[Math.floor(rng.next() * items.length)];
+
+const shuffle = <T>(rng: Rng, items: T[]) =>
+  items
+    .map((item) => ({ item, order: rng.next() }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ item }) => item);
+
+export const startGauntlet = (
+  seed: number,
+  team: TeamSpec,
+  rules: BattleRules = CLASSIC_RULES,
+): GauntletRun => ({
+  seed,
+  rules,
+  team: { ...team, members: team.members.map(({ species, moves }) => ({ species, moves })) },
+  stage: 0,
+  fights: [],
+  rewards: [],
+  over: false,
+});
+
+export const memberHp = (member: TeamMemberSpec, content: BattleContent = CONTENT) =>
+  member.hp ?? memberMaxHp(member, content);
+
+// Easy for the first two stages, then Normal, then Hard from stage five on.
+export const gauntletDifficulty = (stage: number): Difficulty =>
+  stage < 2 ? "easy" : stage < 4 ? "normal" : "hard";
+
+// Opponents grow from two Pokémon to a full team, gaining HP and speed every stage.
+export const gauntletOpponent = (
+  run: GauntletRun,
+  stage = run.stage,
+  content: BattleContent = CONTENT,
+): TeamSpec => {
+  const rng = stageRng(run, stage, 0x5eed);
+  const size = Math.min(MAX_TEAM_SIZE, 2 + Math.floor(stage / 2));
+  const growth = Math.min(stage, MAX_GROWTH_STAGE);
+  const species = shuffle(rng, Object.values(content.species)).slice(0, size);
+  return {
+    name: `Gauntlet Stage ${stage + 1}`,
+    members: species.map((entry) => ({
+      species: entry.name,
+      moves: shuffle(rng, entry.learnset).slice(0, MAX_MOVES),
+      boosts: { maxHp: growth * 12, speed: growth * 3 },
+    })),
+  };
+};
+
+const livingMembers = (run: GauntletRun, content: BattleContent) =>
+  run.team.members.flatMap((member, index) => (memberHp(member, content) > 0 ? [index] : []));
+
+export const gauntletReplay = (run: GauntletRun, content: BattleContent = CONTENT): Replay => {
+  const player = {
+    ...run.team,
+    members: livingMembers(run, content).map((index) => run.team.members[index]),
+  };
+  const seed = stageRng(run, run.stage, 0xf16).next() * 0x100000000;
+  return createReplay(seed >>> 0, { player, opponent: gauntletOpponent(run) }, run.rules);
+};
+
+// Folds a finished fight back into the run: surviving HP carries over and a loss ends it.
+export const finishFight = (
+  run: GauntletRun,
+  state: BattleState,
+  content: BattleContent = CONTENT,
+): GauntletRun => {
+  const fought = livingMembers(run, content);
+  const members = run.team.members.map((member, index) => {
+    const slot = fought.indexOf(index);
+    const pokemon = state.player.members[slot];
+    return slot === -1 || !pokemon ? member : { ...member, hp: pokemon.hp };
+  });
+  const won = state.victor === "player";
+  return {
+    ...run,
+    team: { ...run.team, members },
+    stage: won ? run.stage + 1 : run.stage,
+    fights: [
+      ...run.fights,
+      {
+        stage: run.stage,
+        seed: state.seed,
+        opponent: state.opponent.members.map((member) => member.name),
+        turns: turnsPlayed(state),
+        won,
+      },
+    ],
+    over: !won,
+  };
+};
+
+// Up to three offers after each win: a new move, a stat boost and a heal. A member that
+// already knows four moves swaps out its weakest one; boosts stop at the replay limits.
+export const rewardChoices = (
+  run: GauntletRun,
+  content: BattleContent = CONTENT,
+): GauntletReward[] => {
+  const rng = stageRng(run, run.stage, 0x6f1);
+  const members = run.team.members.map((member, index) => ({ member, index }));
+  const learners = members.filter(({ member }) =>
+    content.species[member.species].learnset.some((move) => !member.moves.includes(move)),
+  );
+  const boosts = members.flatMap(({ member, index }) =>
+    (Object.keys(BOOST_AMOUNTS) as BoostStat[])
+      .filter((stat) => (member.boosts?.[stat] ?? 0) + BOOST_AMOUNTS[stat] <= MAX_BOOSTS[stat])
+      .map((stat): GauntletReward => ({
+        kind: "boost",
+        member: index,
+        stat,
+        amount: BOOST_AMOUNTS[stat],
+      })),
+  );
+  const offers: GauntletReward[] = [];
+
+  if (learners.length > 0) {
+    const { member, index } = pick(rng, learners);
+    const move = pick(
+      rng,
+      content.species[member.species].learnset.filter((name) => !member.moves.includes(name)),
+    );
+    const weakest = [...member.moves].sort(
+      (a, b) => content.moves[a].power - content.moves[b].power,
+    )[0];
+    offers.push(
+      member.moves.length >= MAX_MOVES
+        ? { kind: "move", member: index, move, replaces: weakest }
+        : { kind: "move", member: index, move },
+    );
+  }
+  if (boosts.length > 0) offers.push(pick(rng, boosts));
+  offers.push({ kind: "heal", share: HEAL_SHARE });
+  return offers;
+};
+
+export const applyReward = (
+  run: GauntletRun,
+  reward: GauntletReward,
+  content: BattleContent = CONTENT,
+): GauntletRun => {
+  const members = run.team.members.map((member, index): TeamMemberSpec => {
+    const maxHp = memberMaxHp(member, content);
+    const hp = memberHp(member, content);
+    if (reward.kind === "heal") {
+      return { ...member, hp: Math.min(maxHp, hp + Math.ceil(maxHp * reward.share)) };
+    }
+    if (index !== reward.member) return member;
+    if (reward.kind === "move") {
+      const moves = member.moves.filter((move) => move !== reward.replaces);
+      return { ...member, moves: [...moves, reward.move] };
+    }
+    const boosted = (member.boosts?.[reward.stat] ?? 0) + reward.amount;
+    return {
+      ...member,
+      hp: reward.stat === "maxHp" && hp > 0 ? hp + reward.amount : hp,
+      boosts: { ...member.boosts, [reward.stat]: boosted },
+    };
+  });
+  return { ...run, team: { ...run.team, members }, rewards: [...run.rewards, reward] };
+};
+
+export const describeReward = (run: GauntletRun, reward: GauntletReward) => {
+  if (reward.kind === "heal") return `Heal every Pokémon by ${reward.share * 100}% of its HP`;
+  const name = run.team.members[reward.member]?.species ?? "A Pokémon";
+  if (reward.kind === "move") {
+    return reward.replaces
+      ? `${name} learns ${reward.move} in place of ${reward.replaces}`
+      : `${name} learns ${reward.move}`;
+  }
+  return `${name} gains ${reward.amount} ${reward.stat === "maxHp" ? "max HP" : "speed"}`;
+};
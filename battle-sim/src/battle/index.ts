@@ -0,0 +1,11 @@
+export * from "./types";
+export * from "./content";
+export * from "./data";
+export * from "./engine";
+export * from "./log";
+export * from "./rng";
+export * from "./ai";
+export * from "./replay";
+export * from "./gauntlet";
+export * from "./rules";
+export * from "./stats";
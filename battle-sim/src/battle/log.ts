@@ -0,0 +1,240 @@
+import { activePokemon } from "./engine";
+import type {
+  BattleEvent,
+  BattleState,
+  DamageCause,
+  FieldCondition,
+  LogEntry,
+  LogFlag,
+  LogKind,
+  StatusCondition,
+} from "./types";
+
+const STATUS_INFLICTED: Record<StatusCondition, string> = {
+  burn: "was burned!",
+  paralysis: "is paralyzed! It may be unable to move!",
+  freeze: "was frozen solid!",
+  confusion: "became confused!",
+};
+
+const STATUS_BLOCKED: Partial<Record<StatusCondition, string>> = {
+  paralysis: "is fully paralyzed!",
+  freeze: "is frozen solid!",
+  confusion: "is confused!",
+};
+
+const STATUS_CURED: Partial<Record<StatusCondition, string>> = {
+  freeze: "thawed out!",
+  confusion: "snapped out of its confusion!",
+};
+
+const STATUS_DAMAGE: Partial<Record<DamageCause, string>> = {
+  burn: "is hurt by its burn!",
+  confusion: "hurt itself in its confusion!",
+  hail: "is buffeted by the hail!",
+};
+
+const FIELD_STARTED: Record<FieldCondition, string> = {
+  sun: "The sunlight turned harsh!",
+  rain: "It started to rain!",
+  hail: "It started to hail!",
+  psychic: "The battlefield got weird!",
+};
+
+const FIELD_ENDED: Record<FieldCondition, string> = {
+  sun: "The harsh sunlight faded.",
+  rain: "The rain stopped.",
+  hail: "The hail stopped.",
+  psychic: "The weirdness disappeared from the battlefield.",
+};
+
+export const FIELD_LABELS: Record<FieldCondition, string> = {
+  sun: "Harsh Sun",
+  rain: "Rain",
+  hail: "Hail",
+  psychic: "Psychic Terrain",
+};
+
+const stageMessage = (change: number) => {
+  if (change >= 2) return "rose sharply!";
+  if (change === 1) return "rose!";
+  if (change === -1) return "fell!";
+  if (change <= -2) return "fell harshly!";
+  return null;
+};
+
+export const effectMessage = (effectiveness: number, pokemon: string) => {
+  if (effectiveness === 0) return `It doesn’t affect ${pokemon}…`;
+  if (effectiveness > 1.5) return "It’s super effective!";
+  if (effectiveness < 1) return "It’s not very effective…";
+  return null;
+};
+
+export const formatMultiplier = (multiplier: number) => `${Number(multiplier.toFixed(2))}×`;
+
+export const matchupLabel = (multiplier: number) => {
+  if (multiplier === 0) return "No effect";
+  if (multiplier > 1) return "Super effective";
+  if (multiplier < 1) return "Not very effective";
+  return "Neutral";
+};
+
+export const describeEvent = (event: BattleEvent): string | null => {
+  switch (event.type) {
+    case "TurnOrder":
+      return `Turn ${event.turn} · ${event.order.map((entry) => entry.pokemon).join(" → ")}${
+        event.tie ? " (speed tie)" : ""
+      }`;
+    case "MoveUsed":
+      return `${event.pokemon} used ${event.move.name}!`;
+    case "Crit":
+      return "A critical hit!";
+    case "Missed":
+      return "… but it missed!";
+    case "Switched":
+      return event.forced ? `Go, ${event.to}!` : `${event.from}, come back! Go, ${event.to}!`;
+    case "Rested":
+      return `${event.pokemon} rests and gathers its energy.`;
+    case "Effectiveness":
+      return effectMessage(event.multiplier, event.pokemon);
+    case "StatStage": {
+      const outcome =
+        stageMessage(event.change) ?? `won’t go any ${event.stage > 0 ? "higher" : "lower"}!`;
+      return `${event.pokemon}’s ${event.stat} ${outcome}`;
+    }
+    case "Damage":
+      return event.cause ? `${event.pokemon} ${STATUS_DAMAGE[event.cause] ?? "was hurt!"}` : null;
+    case "Healed":
+      return `${event.pokemon} restored ${event.amount} HP.`;
+    case "EnergyDrained":
+      return `${event.by} siphoned ${event.amount} energy from ${event.pokemon}!`;
+    case "StatusInflicted":
+      return `${event.pokemon} ${STATUS_INFLICTED[event.condition]}`;
+    case "StatusBlocked":
+      return `${event.pokemon} ${STATUS_BLOCKED[event.condition] ?? "can’t move!"}`;
+    case "StatusCured":
+      return `${event.pokemon} ${STATUS_CURED[event.condition] ?? "recovered."}`;
+    case "Fainted":
+      return `${event.pokemon} fainted.`;
+    case "FieldStarted":
+      return FIELD_STARTED[event.condition];
+    case "FieldEnded":
+      return FIELD_ENDED[event.condition];
+    case "TurnLimit":
+      return `Turn ${event.turn} was the last — the side with more HP left takes it.`;
+    default:
+      return null;
+  }
+};
+
+export const describeEvents = (events: BattleEvent[]) =>
+  events.map(describeEvent).filter((message): message is string => message !== null);
+
+export const introMessage = (state: BattleState) =>
+  `The arena hums to life as ${activePokemon(state, "player").name} faces ${
+    activePokemon(state, "opponent").name
+  }.`;
+
+const EVENT_KINDS: Partial<Record<BattleEvent["type"], LogKind>> = {
+  Rested: "rest",
+  Switched: "switch",
+  Fainted: "faint",
+  TurnLimit: "system",
+};
+
+const effectFlag = (multiplier: number): LogFlag | null => {
+  if (multiplier === 0) return "immune";
+  if (multiplier > 1) return "super";
+  if (multiplier < 1) return "resisted";
+  return null;
+};
+
+export const appendMessage = (log: LogEntry[], text: string): LogEntry[] => [
+  ...log,
+  { id: log.length, turn: log[log.length - 1]?.turn ?? 0, kind: "system", text, flags: [] },
+];
+
+export const startLog = (state: BattleState): LogEntry[] => appendMessage([], introMessage(state));
+
+// Folds each move's miss, crit, effectiveness and damage into the entry for that move;
+// every other describable event gets an entry of its own.
+export const appendLog = (log: LogEntry[], events: BattleEvent[]): LogEntry[] => {
+  const entries = [...log];
+  let turn = entries[entries.length - 1]?.turn ?? 0;
+  let action: LogEntry | null = null;
+
+  const push = (entry: Omit<LogEntry, "id" | "turn" | "flags">) => {
+    const created: LogEntry = { id: entries.length, turn, flags: [], ...entry };
+    entries.push(created);
+    return created;
+  };
+
+  events.forEach((event) => {
+    const text = describeEvent(event);
+    switch (event.type) {
+      case "TurnOrder":
+        turn = event.turn;
+        action = null;
+        push({ kind: "turn", text: text ?? `Turn ${event.turn}` });
+        return;
+      case "MoveUsed":
+        action = push({
+          kind: "move",
+          text: text ?? event.move.name,
+          side: event.side,
+          actor: event.pokemon,
+          move: event.move.name,
+        });
+        return;
+      case "Missed":
+      case "Crit":
+      case "Effectiveness": {
+        const flag =
+          event.type === "Missed"
+            ? "miss"
+            : event.type === "Crit"
+              ? "crit"
+              : effectFlag(event.multiplier);
+        if (!action) break;
+        if (flag) action.flags.push(flag);
+        if (text) action.text = `${action.text} ${text}`;
+        return;
+      }
+      case "Damage": {
+        const detail = {
+          target: event.pokemon,
+          damage: event.amount,
+          hpBefore: event.hp + event.amount,
+          hpAfter: event.hp,
+        };
+        if (!event.cause && action) {
+          Object.assign(action, detail);
+          if (event.clamped) action.flags.push("clamped");
+          return;
+        }
+        if (text) push({ kind: "effect", text, side: event.side, actor: event.pokemon, ...detail });
+        return;
+      }
+    }
+    if (!text) return;
+    push({
+      kind: EVENT_KINDS[event.type] ?? "effect",
+      text,
+      side: "side" in event ? event.side : undefined,
+      actor: "pokemon" in event ? event.pokemon : undefined,
+    });
+  });
+
+  return entries;
+};
+
+const describeEntry = (entry: LogEntry) => {
+  const hp =
+    entry.damage !== undefined
+      ? ` (${entry.target} −${entry.damage} HP, ${entry.hpBefore} → ${entry.hpAfter})`
+      : "";
+  const turn = entry.turn > 0 && entry.kind !== "turn" ? `[T${entry.turn}] ` : "";
+  return `${turn}${entry.text}${hp}`;
+};
+
+export const formatTranscript = (log: LogEntry[]) => log.map(describeEntry).join("\n");
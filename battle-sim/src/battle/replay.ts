@@ -0,0 +1,130 @@
+import { ContentError, parseRules, parseTeam } from "./content";
+import { buildTeam, CONTENT } from "./data";
+import { applyAction, createBattle } from "./engine";
+import { CLASSIC_RULES } from "./rules";
+import {
+  SIDES,
+  type BattleAction,
+  type BattleRules,
+  type BattleState,
+  type Replay,
+  type Side,
+  type Species,
+  type TeamSpec,
+} from "./types";
+
+// Version 1 replays predate configurable rules and always play under Classic.
+export const REPLAY_VERSION = 2;
+
+export const createReplay = (
+  seed: number,
+  teams: Record<Side, TeamSpec>,
+  rules: BattleRules = CLASSIC_RULES,
+): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  teams,
+  rules,
+  actions: [],
+});
+
+export const recordAction = (replay: Replay, action: BattleAction): Replay => ({
+  ...replay,
+  actions: [...replay.actions, action],
+});
+
+export const startReplay = (replay: Replay, content = CONTENT): BattleState =>
+  createBattle(
+    replay.seed,
+    buildTeam(replay.teams.player, content),
+    buildTeam(replay.teams.opponent, content),
+    replay.rules,
+  );
+
+// The state a replay leaves the battle in, assuming its actions are legal.
+export const replayState = (replay: Replay, content = CONTENT): BattleState =>
+  replay.actions.reduce(
+    (state, action) => applyAction(state, action).state,
+    startReplay(replay, content),
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const parseAction = (
+  raw: unknown,
+  path = "action",
+  issues: string[] = [],
+): BattleAction | null => {
+  if (!isRecord(raw) || (raw.side !== "player" && raw.side !== "opponent")) {
+    issues.push(`${path} must be an action with a side of player or opponent`);
+    return null;
+  }
+  const side: Side = raw.side;
+  if (raw.type === "rest") return { type: "rest", side };
+  if (raw.type === "move" && Number.isInteger(raw.moveIndex)) {
+    return { type: "move", side, moveIndex: raw.moveIndex as number };
+  }
+  if (raw.type === "switch" && Number.isInteger(raw.index)) {
+    return { type: "switch", side, index: raw.index as number };
+  }
+  issues.push(`${path} must be a move (moveIndex), rest or switch (index) action`);
+  return null;
+};
+
+export const parseReplay = (
+  raw: unknown,
+  species: Record<string, Species> = CONTENT.species,
+  source = "replay",
+): Replay => {
+  if (!isRecord(raw)) throw new ContentError(source, ["the replay must be a JSON object"]);
+  const issues: string[] = [];
+
+  if (raw.version !== 1 && raw.version !== REPLAY_VERSION) {
+    issues.push(`version must be 1 or ${REPLAY_VERSION}`);
+  }
+  const seed = raw.seed;
+  if (typeof seed !== "number" || !Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+    issues.push("seed must be an unsigned 32-bit integer");
+  }
+
+  const rawTeams = isRecord(raw.teams) ? raw.teams : {};
+  const teams = {} as Record<Side, TeamSpec>;
+  SIDES.forEach((side) => {
+    try {
+      teams[side] = parseTeam(rawTeams[side], species, `teams.${side}`, { progress: true });
+    } catch (error) {
+      if (!(error instanceof ContentError)) throw error;
+      issues.push(...error.issues);
+    }
+  });
+
+  let rules = CLASSIC_RULES;
+  if (raw.version !== 1) {
+    try {
+      rules = parseRules(raw.rules, "rules");
+    } catch (error) {
+      if (!(error instanceof ContentError)) throw error;
+      issues.push(...error.issues);
+    }
+  }
+
+  const rawActions = Array.isArray(raw.actions) ? raw.actions : [];
+  if (!Array.isArray(raw.actions)) issues.push("actions must be an array");
+  const actions = rawActions.flatMap((entry, index) => {
+    const action = parseAction(entry, `actions[${index}]`, issues);
+    return action ? [action] : [];
+  });
+  if (issues.length > 0) throw new ContentError(source, issues);
+
+  const replay: Replay = { version: REPLAY_VERSION, seed: seed as number, teams, rules, actions };
+  let state = startReplay(replay);
+  for (const [index, action] of actions.entries()) {
+    const result = applyAction(state, action);
+    if (result.events.length === 0) {
+      throw new ContentError(source, [`actions[${index}] is not legal at that point in the battle`]);
+    }
+    state = result.state;
+  }
+  return state.victor ? { ...replay, victor: state.victor } : replay;
+};
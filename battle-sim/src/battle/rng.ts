@@ -0,0 +1,34 @@
+export interface Rng {
+  next: () => number;
+  readonly state: number;
+}
+
+export const DEFAULT_SEED = 20240611;
+
+export const randomSeed = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// Seeds are uint32s; a larger number is refused rather than wrapped onto a different seed.
+export const parseSeed = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed <= 0xffffffff ? seed : null;
+};
+
+// mulberry32: tiny, fast and good enough for battle rolls. The whole generator
+// state is a single uint32, so it can live inside BattleState.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    },
+    get state() {
+      return state;
+    },
+  };
+};
@@ -0,0 +1,57 @@
+import { MAX_TEAM_SIZE } from "./content";
+import type { BattleRules } from "./types";
+
+export type RulesPreset = "classic" | "chaos" | "speedrun";
+
+export const CLASSIC_RULES: BattleRules = {
+  name: "Classic",
+  critChance: 0.1,
+  critMultiplier: 1.5,
+  minVariance: 0.85,
+  maxVariance: 1.05,
+  minDamage: 12,
+  maxDamage: 90,
+  turnLimit: 0,
+  teamSize: MAX_TEAM_SIZE,
+  animations: true,
+  timings: { impact: 620, settle: 300, aiDelay: 900 },
+};
+
+export const RULES_PRESETS: Record<RulesPreset, { description: string; rules: BattleRules }> = {
+  classic: {
+    description: "The standard numbers.",
+    rules: CLASSIC_RULES,
+  },
+  chaos: {
+    description: "Crits land often and hit twice as hard; every roll swings wildly.",
+    rules: {
+      ...CLASSIC_RULES,
+      name: "Chaos",
+      critChance: 0.3,
+      critMultiplier: 2,
+      minVariance: 0.5,
+      maxVariance: 1.5,
+      minDamage: 6,
+      maxDamage: 120,
+    },
+  },
+  speedrun: {
+    description: "Two Pokémon a side, 15 turns, no animations.",
+    rules: {
+      ...CLASSIC_RULES,
+      name: "Speedrun",
+      turnLimit: 15,
+      teamSize: 2,
+      animations: false,
+      timings: { impact: 0, settle: 0, aiDelay: 150 },
+    },
+  },
+};
+
+export const RULES_PRESET_IDS = Object.keys(RULES_PRESETS) as RulesPreset[];
+
+export const rulesPreset = (rules: BattleRules): RulesPreset | undefined =>
+  RULES_PRESET_IDS.find((id) => RULES_PRESETS[id].rules.name === rules.name);
+
+// How long a field chosen before the battle lasts.
+export const DEFAULT_FIELD_TURNS = 5;
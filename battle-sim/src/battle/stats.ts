@@ -0,0 +1,210 @@
+import { applyAction, opposingSide, turnsPlayed } from "./engine";
+import { startReplay } from "./replay";
+import type { BattleEvent, MoveType, Replay, Side } from "./types";
+
+export interface MoveTally {
+  move: string;
+  type: MoveType;
+  uses: number;
+  hits: number;
+  crits: number;
+  superEffective: number;
+  damage: number;
+}
+
+export interface SpeciesTally {
+  species: string;
+  damageDealt: number;
+  damageTaken: number;
+  faints: number;
+}
+
+export interface MatchRecord {
+  id: string;
+  playedAt: number;
+  opponent: string;
+  side: Side;
+  victor: Side;
+  won: boolean;
+  turns: number;
+  seed: number;
+  crits: number;
+  superEffective: number;
+  moves: MoveTally[];
+  species: SpeciesTally[];
+}
+
+export interface Streak {
+  won: boolean;
+  length: number;
+}
+
+export interface HistorySummary {
+  played: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  current?: Streak;
+  bestWinStreak: number;
+  averageTurns: number;
+  moves: MoveTally[];
+  species: SpeciesTally[];
+}
+
+const tallyFor = <T extends object>(tallies: Map<string, T>, key: string, create: () => T) => {
+  const existing = tallies.get(key);
+  if (existing) return existing;
+  const created = create();
+  tallies.set(key, created);
+  return created;
+};
+
+const newMove = (move: string, type: MoveType): MoveTally => ({
+  move,
+  type,
+  uses: 0,
+  hits: 0,
+  crits: 0,
+  superEffective: 0,
+  damage: 0,
+});
+
+const newSpecies = (species: string): SpeciesTally => ({
+  species,
+  damageDealt: 0,
+  damageTaken: 0,
+  faints: 0,
+});
+
+// Replays the finished battle to tally it from `side`'s point of view. Crits, effectiveness
+// and move damage always follow the MoveUsed that caused them.
+export const summarizeMatch = (
+  replay: Replay,
+  side: Side,
+  victor: Side,
+  opponent: string,
+  playedAt = Date.now(),
+): MatchRecord => {
+  const moves = new Map<string, MoveTally>();
+  const species = new Map<string, SpeciesTally>();
+  const last: Partial<Record<Side, { move: MoveTally | null; pokemon: string }>> = {};
+  let crits = 0;
+  let superEffective = 0;
+
+  const ownMove = (event: BattleEvent & { side: Side }) => {
+    const attacker = last[opposingSide(event.side)];
+    return event.side !== side && attacker?.move ? attacker.move : null;
+  };
+
+  const tally = (event: BattleEvent) => {
+    switch (event.type) {
+      case "MoveUsed": {
+        const move =
+          event.side === side
+            ? tallyFor(moves, event.move.name, () => newMove(event.move.name, event.move.type))
+            : null;
+        if (move) move.uses += 1;
+        last[event.side] = { move, pokemon: event.pokemon };
+        return;
+      }
+      case "Crit": {
+        const move = ownMove(event);
+        if (!move) return;
+        move.crits += 1;
+        crits += 1;
+        return;
+      }
+      case "Effectiveness": {
+        const move = ownMove(event);
+        if (!move || event.multiplier <= 1) return;
+        move.superEffective += 1;
+        superEffective += 1;
+        return;
+      }
+      case "Damage": {
+        if (event.side === side) {
+          tallyFor(species, event.pokemon, () => newSpecies(event.pokemon)).damageTaken +=
+            event.amount;
+          return;
+        }
+        const attacker = last[side];
+        if (event.cause || !attacker?.move) return;
+        attacker.move.hits += 1;
+        attacker.move.damage += event.amount;
+        tallyFor(species, attacker.pokemon, () => newSpecies(attacker.pokemon)).damageDealt +=
+          event.amount;
+        return;
+      }
+      case "Fainted":
+        if (event.side === side) {
+          tallyFor(species, event.pokemon, () => newSpecies(event.pokemon)).faints += 1;
+        }
+    }
+  };
+
+  const final = replay.actions.reduce((state, action) => {
+    const result = applyAction(state, action);
+    result.events.forEach(tally);
+    return result.state;
+  }, startReplay(replay));
+
+  return {
+    id: `${playedAt}-${replay.seed}`,
+    playedAt,
+    opponent,
+    side,
+    victor,
+    won: victor === side,
+    turns: turnsPlayed(final),
+    seed: replay.seed,
+    crits,
+    superEffective,
+    moves: [...moves.values()],
+    species: [...species.values()],
+  };
+};
+
+export const summarizeHistory = (records: MatchRecord[]): HistorySummary => {
+  const ordered = [...records].sort((a, b) => a.playedAt - b.playedAt);
+  const moves = new Map<string, MoveTally>();
+  const species = new Map<string, SpeciesTally>();
+  let current: Streak | undefined;
+  let bestWinStreak = 0;
+
+  ordered.forEach((record) => {
+    current =
+      current?.won === record.won
+        ? { won: record.won, length: current.length + 1 }
+        : { won: record.won, length: 1 };
+    if (current.won) bestWinStreak = Math.max(bestWinStreak, current.length);
+
+    record.moves.forEach((entry) => {
+      const move = tallyFor(moves, entry.move, () => newMove(entry.move, entry.type));
+      move.uses += entry.uses;
+      move.hits += entry.hits;
+      move.crits += entry.crits;
+      move.superEffective += entry.superEffective;
+      move.damage += entry.damage;
+    });
+    record.species.forEach((entry) => {
+      const tally = tallyFor(species, entry.species, () => newSpecies(entry.species));
+      tally.damageDealt += entry.damageDealt;
+      tally.damageTaken += entry.damageTaken;
+      tally.faints += entry.faints;
+    });
+  });
+
+  const wins = ordered.filter((record) => record.won).length;
+  const turns = ordered.reduce((total, record) => total + record.turns, 0);
+  return {
+    played: ordered.length,
+    wins,
+    losses: ordered.length - wins,
+    winRate: ordered.length === 0 ? 0 : wins / ordered.length,
+    current,
+    bestWinStreak,
+    averageTurns: ordered.length === 0 ? 0 : turns / ordered.length,
+    moves: [...moves.values()],
+    species: [...species.values()],
+  };
+};
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import typeChartJson from "../content/type-chart.json";
+import { ContentError, parseTypeChart } from "./content";
+import { TYPE_CHART } from "./data";
+import { typeMultiplier } from "./engine";
+import { MOVE_TYPES } from "./types";
+
+const MULTIPLIERS = [0, 0.5, 1, 2];
+
+describe("TYPE_CHART", () => {
+  it("has a row for every attacking type", () => {
+    MOVE_TYPES.forEach((type) => assert.ok(TYPE_CHART[type], `no row for ${type}`));
+  });
+
+  it("lists every type as a defender in some row", () => {
+    MOVE_TYPES.forEach((type) =>
+      assert.ok(
+        Object.values(TYPE_CHART).some((row) => row && type in row),
+        `${type} is never defended against`,
+      ),
+    );
+  });
+
+  it("resolves every attacking and defending pair to a known multiplier", () => {
+    MOVE_TYPES.forEach((attacking) =>
+      MOVE_TYPES.forEach((defending) => {
+        const multiplier = typeMultiplier(attacking, [defending]);
+        assert.ok(
+          MULTIPLIERS.includes(multiplier),
+          `${attacking} → ${defending} is ${multiplier}×`,
+        );
+      }),
+    );
+  });
+
+  it("only names known types", () => {
+    Object.entries(TYPE_CHART).forEach(([attacking, row]) => {
+      assert.ok((MOVE_TYPES as string[]).includes(attacking), `unknown attacker ${attacking}`);
+      Object.keys(row ?? {}).forEach((defending) =>
+        assert.ok((MOVE_TYPES as string[]).includes(defending), `unknown defender ${defending}`),
+      );
+    });
+  });
+
+  it("is rejected when a type's row is missing", () => {
+    const chart: Record<string, unknown> = { ...typeChartJson.chart };
+    delete chart.Fairy;
+    assert.throws(() => parseTypeChart({ chart }), ContentError);
+  });
+});
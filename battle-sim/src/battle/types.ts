@@ -0,0 +1,285 @@
+export type Side = "player" | "opponent";
+
+export const SIDES: Side[] = ["player", "opponent"];
+
+export type MoveType =
+  | "Normal"
+  | "Fire"
+  | "Water"
+  | "Electric"
+  | "Grass"
+  | "Ice"
+  | "Fighting"
+  | "Poison"
+  | "Ground"
+  | "Flying"
+  | "Psychic"
+  | "Bug"
+  | "Rock"
+  | "Ghost"
+  | "Dragon"
+  | "Dark"
+  | "Steel"
+  | "Fairy";
+
+export const MOVE_TYPES: MoveType[] = [
+  "Normal",
+  "Fire",
+  "Water",
+  "Electric",
+  "Grass",
+  "Ice",
+  "Fighting",
+  "Poison",
+  "Ground",
+  "Flying",
+  "Psychic",
+  "Bug",
+  "Rock",
+  "Ghost",
+  "Dragon",
+  "Dark",
+  "Steel",
+  "Fairy",
+];
+
+export type StageStat = "accuracy" | "evasion";
+
+export const STAGE_STATS: StageStat[] = ["accuracy", "evasion"];
+
+export type StatStages = Record<StageStat, number>;
+
+export type EffectTarget = "self" | "foe";
+
+export type StatusCondition = "burn" | "paralysis" | "freeze" | "confusion";
+
+export const STATUS_CONDITIONS: StatusCondition[] = ["burn", "paralysis", "freeze", "confusion"];
+
+export interface Status {
+  condition: StatusCondition;
+  turns: number;
+}
+
+export type FieldCondition = "sun" | "rain" | "hail" | "psychic";
+
+export const FIELD_CONDITIONS: FieldCondition[] = ["sun", "rain", "hail", "psychic"];
+
+// `turns` counts down at the end of each turn, including the turn the field was set.
+export interface Field {
+  condition: FieldCondition;
+  turns: number;
+}
+
+export type DamageCause = StatusCondition | "hail";
+
+export type MoveEffect =
+  | { type: "stage"; target: EffectTarget; stat: StageStat; stages: number; chance?: number }
+  | { type: "heal"; percent: number }
+  | { type: "drain"; ratio: number }
+  | { type: "energyDrain"; amount: number }
+  | { type: "status"; condition: StatusCondition; chance: number }
+  | { type: "field"; condition: FieldCondition; turns: number };
+
+export interface Move {
+  name: string;
+  type: MoveType;
+  power: number;
+  accuracy: number;
+  cost: number;
+  priority?: number;
+  description: string;
+  effects?: MoveEffect[];
+}
+
+export interface Pokemon {
+  name: string;
+  hp: number;
+  maxHp: number;
+  speed: number;
+  types: MoveType[];
+  moves: Move[];
+  flair: string;
+}
+
+export interface Species {
+  name: string;
+  flair: string;
+  maxHp: number;
+  speed: number;
+  types: MoveType[];
+  learnset: string[];
+}
+
+export type BoostStat = "maxHp" | "speed";
+
+// `hp` and `boosts` only appear in gauntlet runs, where HP and rewards carry between fights.
+export interface TeamMemberSpec {
+  species: string;
+  moves: string[];
+  hp?: number;
+  boosts?: Partial<Record<BoostStat, number>>;
+}
+
+export interface TeamSpec {
+  name?: string;
+  members: TeamMemberSpec[];
+}
+
+export type TypeChart = Partial<Record<MoveType, Partial<Record<MoveType, number>>>>;
+
+export interface BattlePokemon extends Pokemon {
+  energy: number;
+  stages: StatStages;
+  status?: Status;
+}
+
+export interface BattleTeam {
+  members: BattlePokemon[];
+  active: number;
+}
+
+// Milliseconds the arena waits while a step animates, after it lands and before the AI moves.
+export interface BattleTimings {
+  impact: number;
+  settle: number;
+  aiDelay: number;
+}
+
+export interface BattleRules {
+  name: string;
+  critChance: number;
+  critMultiplier: number;
+  minVariance: number;
+  maxVariance: number;
+  minDamage: number;
+  maxDamage: number;
+  // 0 means no limit; otherwise the side with more HP left wins once this turn resolves.
+  turnLimit: number;
+  teamSize: number;
+  animations: boolean;
+  timings: BattleTimings;
+  // The field the battle opens under, if any.
+  field?: Field;
+}
+
+export interface BattleState {
+  player: BattleTeam;
+  opponent: BattleTeam;
+  turn: number;
+  choices: Partial<Record<Side, BattleAction>>;
+  pendingSwitches: Side[];
+  victor?: Side;
+  seed: number;
+  rng: number;
+  rules: BattleRules;
+  field?: Field;
+}
+
+export type BattleAction =
+  | { type: "move"; side: Side; moveIndex: number }
+  | { type: "rest"; side: Side }
+  | { type: "switch"; side: Side; index: number };
+
+export type DamageClamp = "min" | "max";
+
+export interface TypeMatchup {
+  type: MoveType;
+  multiplier: number;
+}
+
+export interface DamagePreview {
+  min: number;
+  max: number;
+  critMin: number;
+  critMax: number;
+  critChance: number;
+  hitChance: number;
+  multiplier: number;
+  stab: boolean;
+  fieldMultiplier: number;
+  matchups: TypeMatchup[];
+  clampedLow: boolean;
+  clampedHigh: boolean;
+}
+
+export interface TurnOrderEntry {
+  side: Side;
+  pokemon: string;
+  priority: number;
+  speed: number;
+}
+
+export type BattleEvent =
+  | { type: "ActionSelected"; side: Side }
+  | { type: "TurnOrder"; turn: number; order: TurnOrderEntry[]; tie: boolean }
+  | { type: "MoveUsed"; side: Side; pokemon: string; move: Move }
+  | { type: "Missed"; side: Side; pokemon: string }
+  | { type: "Rested"; side: Side; pokemon: string; energy: number }
+  | { type: "Switched"; side: Side; from: string; to: string; forced: boolean }
+  | { type: "Crit"; side: Side }
+  | { type: "Effectiveness"; side: Side; pokemon: string; multiplier: number }
+  | {
+      type: "Damage";
+      side: Side;
+      pokemon: string;
+      amount: number;
+      hp: number;
+      maxHp: number;
+      cause?: DamageCause;
+      clamped?: DamageClamp;
+    }
+  | { type: "Healed"; side: Side; pokemon: string; amount: number; hp: number; maxHp: number }
+  | { type: "EnergyDrained"; side: Side; pokemon: string; by: string; amount: number }
+  | { type: "StatusInflicted"; side: Side; pokemon: string; condition: StatusCondition }
+  | { type: "StatusBlocked"; side: Side; pokemon: string; condition: StatusCondition }
+  | { type: "StatusCured"; side: Side; pokemon: string; condition: StatusCondition }
+  | {
+      type: "StatStage";
+      side: Side;
+      pokemon: string;
+      stat: StageStat;
+      change: number;
+      stage: number;
+    }
+  | { type: "Fainted"; side: Side; pokemon: string }
+  | { type: "FieldStarted"; side: Side; condition: FieldCondition; turns: number }
+  | { type: "FieldEnded"; condition: FieldCondition }
+  | { type: "TurnLimit"; turn: number }
+  | { type: "Victory"; side: Side };
+
+export interface BattleStep {
+  state: BattleState;
+  events: BattleEvent[];
+}
+
+export interface BattleResult extends BattleStep {
+  steps: BattleStep[];
+}
+
+export type LogKind = "system" | "turn" | "move" | "rest" | "switch" | "effect" | "faint";
+
+export type LogFlag = "crit" | "super" | "resisted" | "immune" | "miss" | "clamped";
+
+export interface LogEntry {
+  id: number;
+  turn: number;
+  kind: LogKind;
+  text: string;
+  side?: Side;
+  actor?: string;
+  move?: string;
+  target?: string;
+  damage?: number;
+  hpBefore?: number;
+  hpAfter?: number;
+  flags: LogFlag[];
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  teams: Record<Side, TeamSpec>;
+  rules: BattleRules;
+  actions: BattleAction[];
+  victor?: Side;
+}
@@ -0,0 +1,190 @@
+import { useEffect, useRef } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import clsx from "clsx";
+import {
+  IMPACT_MS,
+  particleAt,
+  targetPoint,
+  type EffectParticle,
+  type ImpactBurst,
+  type ScreenFlash,
+} from "./move-effects";
+import { TYPE_STYLES } from "./type-styles";
+
+// Framer interpolates between these samples of `particleAt`, which is close enough for
+// curved paths without animating every frame by hand.
+const DOM_KEYFRAMES = 12;
+const GLYPH_SIZE = 36;
+const IMPACT_SECONDS = IMPACT_MS / 1000;
+
+const percent = (fraction: number) => `${fraction * 100}%`;
+
+const DomParticles = ({ particles }: { particles: EffectParticle[] }) => (
+  <AnimatePresence>
+    {particles.map((particle) => {
+      const frames = Array.from({ length: DOM_KEYFRAMES + 1 }).map((_, index) =>
+        particleAt(particle, index / DOM_KEYFRAMES),
+      );
+      return (
+        <motion.span
+          key={particle.id}
+          initial={{
+            left: percent(frames[0].x),
+            top: percent(frames[0].y),
+            scale: frames[0].scale,
+            opacity: 0,
+          }}
+          animate={{
+            left: frames.map((frame) => percent(frame.x)),
+            top: frames.map((frame) => percent(frame.y)),
+            scale: frames.map((frame) => frame.scale),
+            rotate: frames.map((frame) => frame.rotate),
+            opacity: frames.map((frame) => frame.opacity),
+          }}
+          exit={{ opacity: 0 }}
+          transition={{
+            duration: particle.duration / 1000,
+            delay: particle.delay / 1000,
+            ease: "linear",
+          }}
+          className={clsx(
+            "absolute -translate-x-1/2 -translate-y-1/2 text-4xl drop-shadow-[0_20px_25px_rgba(0,0,0,0.25)]",
+            TYPE_STYLES[particle.type].text,
+          )}
+        >
+          {particle.glyph}
+        </motion.span>
+      );
+    })}
+  </AnimatePresence>
+);
+
+// Dense bundles would mean dozens of animated nodes, so they share one canvas that redraws
+// every frame while any of them are in flight.
+const CanvasParticles = ({ particles }: { particles: EffectParticle[] }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const particlesRef = useRef(particles);
+  const active = particles.length > 0;
+
+  useEffect(() => {
+    particlesRef.current = particles;
+  }, [particles]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!active || !canvas || !context) return undefined;
+    let frame = 0;
+    const draw = (now: number) => {
+      const ratio = window.devicePixelRatio || 1;
+      const { width, height } = canvas.getBoundingClientRect();
+      if (canvas.width !== Math.round(width * ratio)) canvas.width = Math.round(width * ratio);
+      if (canvas.height !== Math.round(height * ratio)) canvas.height = Math.round(height * ratio);
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, width, height);
+      context.textAlign = "center";
+      context.textBaseline = "middle";
+      particlesRef.current.forEach((particle) => {
+        const t = (now - particle.launchedAt - particle.delay) / particle.duration;
+        if (t < 0 || t > 1) return;
+        const point = particleAt(particle, t);
+        context.save();
+        context.globalAlpha = point.opacity;
+        context.translate(point.x * width, point.y * height);
+        context.rotate((point.rotate * Math.PI) / 180);
+        context.font = `${GLYPH_SIZE * point.scale}px system-ui, sans-serif`;
+        context.fillText(particle.glyph, 0, 0);
+        context.restore();
+      });
+      frame = window.requestAnimationFrame(draw);
+    };
+    frame = window.requestAnimationFrame(draw);
+    return () => {
+      window.cancelAnimationFrame(frame);
+      context.setTransform(1, 0, 0, 1, 0, 0);
+      context.clearRect(0, 0, canvas.width, canvas.height);
+    };
+  }, [active]);
+
+  return <canvas ref={canvasRef} aria-hidden className="absolute inset-0 h-full w-full" />;
+};
+
+const ImpactBursts = ({ impacts }: { impacts: ImpactBurst[] }) => (
+  <AnimatePresence>
+    {impacts.map((impact) => {
+      const point = targetPoint(impact.side);
+      return (
+        <motion.div
+          key={impact.bundle}
+          exit={{ opacity: 0 }}
+          className="absolute"
+          style={{ left: percent(point.x), top: percent(point.y) }}
+        >
+          <motion.span
+            className="absolute -translate-x-1/2 -translate-y-1/2 rounded-full"
+            style={{
+              width: impact.radius * 2,
+              height: impact.radius * 2,
+              background: `radial-gradient(circle, ${impact.color}, transparent 70%)`,
+            }}
+            initial={{ scale: 0.2, opacity: 1 }}
+            animate={{ scale: 1.2, opacity: 0 }}
+            transition={{ duration: IMPACT_SECONDS, ease: "easeOut" }}
+          />
+          {Array.from({ length: impact.shards }).map((_, index) => {
+            const angle = (index / impact.shards) * Math.PI * 2;
+            return (
+              <motion.span
+                key={index}
+                className="absolute -translate-x-1/2 -translate-y-1/2 text-lg"
+                initial={{ x: 0, y: 0, scale: 0.6, opacity: 1 }}
+                animate={{
+                  x: Math.cos(angle) * impact.radius,
+                  y: Math.sin(angle) * impact.radius,
+                  scale: 1,
+                  opacity: 0,
+                }}
+                transition={{ duration: IMPACT_SECONDS, ease: "easeOut" }}
+              >
+                {impact.glyph}
+              </motion.span>
+            );
+          })}
+        </motion.div>
+      );
+    })}
+  </AnimatePresence>
+);
+
+const FlashOverlay = ({ flashes }: { flashes: ScreenFlash[] }) => (
+  <AnimatePresence>
+    {flashes.map((flash) => (
+      <motion.div
+        key={flash.bundle}
+        className="absolute inset-0 mix-blend-screen"
+        style={{ background: flash.color }}
+        initial={{ opacity: 0 }}
+        animate={{ opacity: [0, flash.opacity, 0] }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: IMPACT_SECONDS, ease: "easeOut" }}
+      />
+    ))}
+  </AnimatePresence>
+);
+
+export const EffectLayer = ({
+  particles,
+  impacts,
+  flashes,
+}: {
+  particles: EffectParticle[];
+  impacts: ImpactBurst[];
+  flashes: ScreenFlash[];
+}) => (
+  <div aria-hidden className="pointer-events-none absolute inset-0 z-10">
+    <DomParticles particles={particles.filter((particle) => !particle.canvas)} />
+    <CanvasParticles particles={particles.filter((particle) => particle.canvas)} />
+    <ImpactBursts impacts={impacts} />
+    <FlashOverlay flashes={flashes} />
+  </div>
+);
@@ -0,0 +1,104 @@
+import { AnimatePresence, motion } from "framer-motion";
+import clsx from "clsx";
+import { FIELD_LABELS, type Field, type FieldCondition } from "../battle";
+
+interface FieldTheme {
+  glyph: string;
+  // Tints the whole arena while the field is up.
+  backdrop: string;
+  // Drifts across the arena, or pulses in place without a drift; held still when motion is off.
+  weather: string;
+  weatherSize: string;
+  drift?: { x: number; y: number };
+  seconds: number;
+  badge: string;
+}
+
+const FIELD_THEMES: Record<FieldCondition, FieldTheme> = {
+  sun: {
+    glyph: "☀",
+    backdrop:
+      "radial-gradient(circle at 78% 8%, rgba(255,214,102,0.55), rgba(255,170,80,0.22) 40%, transparent 70%)",
+    weather:
+      "repeating-conic-gradient(from 0deg at 78% 8%, rgba(255,236,170,0.22) 0deg 6deg, transparent 6deg 18deg)",
+    weatherSize: "100% 100%",
+    seconds: 4,
+    badge: "bg-amber-100/90 text-amber-700",
+  },
+  rain: {
+    glyph: "☂",
+    backdrop:
+      "linear-gradient(180deg, rgba(92,122,184,0.4), rgba(120,150,210,0.18) 60%, transparent)",
+    weather:
+      "repeating-linear-gradient(105deg, transparent 0 14px, rgba(210,228,255,0.45) 14px 15px, transparent 15px 38px)",
+    weatherSize: "120px 120px",
+    drift: { x: -32, y: 120 },
+    seconds: 0.6,
+    badge: "bg-sky-100/90 text-sky-700",
+  },
+  hail: {
+    glyph: "❄",
+    backdrop:
+      "linear-gradient(180deg, rgba(214,236,255,0.55), rgba(236,246,255,0.25) 60%, transparent)",
+    weather:
+      "radial-gradient(circle, rgba(255,255,255,0.9) 0 2px, transparent 3px), radial-gradient(circle, rgba(226,242,255,0.8) 0 1.5px, transparent 2.5px)",
+    weatherSize: "70px 70px, 45px 45px",
+    drift: { x: 12, y: 140 },
+    seconds: 1.6,
+    badge: "bg-cyan-100/90 text-cyan-700",
+  },
+  psychic: {
+    glyph: "✦",
+    backdrop:
+      "radial-gradient(ellipse at 50% 100%, rgba(236,112,214,0.4), rgba(168,110,255,0.2) 50%, transparent 80%)",
+    weather:
+      "repeating-radial-gradient(ellipse at 50% 110%, rgba(255,170,240,0.18) 0 10px, transparent 10px 36px)",
+    weatherSize: "100% 100%",
+    seconds: 3,
+    badge: "bg-fuchsia-100/90 text-fuchsia-700",
+  },
+};
+
+// Tints the arena for the active field and shows how many turns it has left.
+export const FieldOverlay = ({ field, still }: { field?: Field; still: boolean }) => {
+  const theme = field && FIELD_THEMES[field.condition];
+  return (
+    <AnimatePresence>
+      {field && theme && (
+        <motion.div
+          key={field.condition}
+          className="pointer-events-none absolute inset-0"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: still ? 0 : 0.6 }}
+        >
+          <div aria-hidden className="absolute inset-0" style={{ background: theme.backdrop }} />
+          <motion.div
+            aria-hidden
+            className="absolute inset-0"
+            style={{ backgroundImage: theme.weather, backgroundSize: theme.weatherSize }}
+            animate={
+              still
+                ? undefined
+                : theme.drift
+                  ? { backgroundPosition: ["0px 0px", `${theme.drift.x}px ${theme.drift.y}px`] }
+                  : { opacity: [0.6, 1, 0.6] }
+            }
+            transition={{ duration: theme.seconds, ease: "linear", repeat: Infinity }}
+          />
+          <p
+            role="status"
+            className={clsx(
+              "absolute left-1/2 top-5 -translate-x-1/2 rounded-full px-4 py-1 text-xs font-semibold uppercase tracking-[0.25em] shadow-[0_10px_25px_rgba(15,23,42,0.08)]",
+              theme.badge,
+            )}
+          >
+            {theme.glyph} {FIELD_LABELS[field.condition]} · {field.turns}{" "}
+            {field.turns === 1 ? "turn" : "turns"} left
+          </p>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,333 @@
+import { useEffect, useState } from "react";
+import { motion, type useAnimationControls, type Variants } from "framer-motion";
+import clsx from "clsx";
+import {
+  effectiveSpeed,
+  MAX_ENERGY,
+  type BattlePokemon,
+  type Side,
+  type StageStat,
+  type StatusCondition,
+} from "../battle";
+import { speciesTheme, type SpriteDescriptor, type SpritePose } from "./species-themes";
+import { TYPE_STYLES } from "./type-styles";
+
+export const formatHp = (hp: number, maxHp: number) => `${hp}/${maxHp}`;
+
+interface Motion {
+  direction: number;
+  still: boolean;
+}
+
+const BOUNCE_VARIANTS: Variants = {
+  idle: {
+    x: 0,
+    y: 0,
+    rotate: 0,
+    opacity: 1,
+    filter: "grayscale(0)",
+    transition: { duration: 0.4, ease: "easeOut" },
+  },
+  active: {
+    y: [-12, 0, -8],
+    transition: {
+      duration: 1.8,
+      repeat: Infinity,
+      ease: "easeInOut",
+    },
+  },
+  attack: ({ direction }: Motion) => ({
+    x: [0, direction * 18, 0],
+    y: 0,
+    transition: { duration: 0.45, ease: "easeOut" },
+  }),
+  faint: ({ direction, still }: Motion) => ({
+    x: 0,
+    y: still ? 0 : 36,
+    rotate: still ? 0 : direction * -10,
+    opacity: 0.45,
+    filter: "grayscale(1)",
+    transition: { duration: still ? 0 : 0.7, ease: "easeIn" },
+  }),
+};
+
+// Card chrome that belongs to the side of the arena rather than to the species.
+const SIDE_FRAMES: Record<Side, { card: string; halo: string; well: string }> = {
+  player: {
+    card: "border-white/60 bg-white/70 shadow-[0_25px_55px_rgba(120,125,255,0.18)]",
+    halo: "bg-gradient-to-br from-white/40 via-white/10 to-white/40",
+    well: "border-white/60",
+  },
+  opponent: {
+    card: "border-white/70 bg-white/60 shadow-[0_25px_55px_rgba(112,165,255,0.18)]",
+    halo: "bg-white/30",
+    well: "border-white/70",
+  },
+};
+
+const HealthBar = ({
+  name,
+  trainer,
+  current,
+  max,
+}: {
+  name: string;
+  trainer: string;
+  current: number;
+  max: number;
+}) => {
+  const ratio = current / max;
+  const percent = Math.max(0, Math.min(1, ratio));
+  const hue = Math.round(120 * percent);
+  return (
+    <div className="flex w-full flex-col gap-1">
+      <div className="flex items-center justify-between text-xs font-medium uppercase tracking-[0.2em] text-zinc-500">
+        <span>{trainer}</span>
+        <span className="font-semibold text-zinc-800">{formatHp(current, max)}</span>
+      </div>
+      <div
+        role="progressbar"
+        aria-label={`${name} HP`}
+        aria-valuemin={0}
+        aria-valuemax={max}
+        aria-valuenow={Math.max(0, current)}
+        aria-valuetext={`${Math.max(0, current)} of ${max} HP`}
+        className="relative h-2.5 overflow-hidden rounded-full bg-zinc-200/60"
+      >
+        <motion.div
+          className="h-full rounded-full"
+          style={{
+            background: `linear-gradient(90deg, hsl(${hue}, 90%, 65%), hsl(${hue}, 85%, 55%))`,
+          }}
+          animate={{ width: `${percent * 100}%` }}
+          transition={{ duration: 0.6, ease: "easeOut" }}
+        />
+      </div>
+    </div>
+  );
+};
+
+const STAGE_LABELS: Record<StageStat, string> = { accuracy: "Acc", evasion: "Eva" };
+
+const STATUS_STYLES: Record<StatusCondition, { label: string; className: string }> = {
+  burn: { label: "Burn", className: "bg-orange-100/90 text-orange-500" },
+  paralysis: { label: "Para", className: "bg-yellow-100/90 text-amber-500" },
+  freeze: { label: "Frozen", className: "bg-cyan-100/90 text-cyan-500" },
+  confusion: { label: "Confused", className: "bg-fuchsia-100/90 text-fuchsia-500" },
+};
+
+const EnergyBar = ({ current, max }: { current: number; max: number }) => {
+  const percent = Math.max(0, Math.min(1, current / max));
+  return (
+    <div className="flex w-full items-center gap-3">
+      <span className="text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500">
+        Energy
+      </span>
+      <div
+        role="progressbar"
+        aria-label="Energy"
+        aria-valuemin={0}
+        aria-valuemax={max}
+        aria-valuenow={current}
+        className="relative h-1.5 flex-1 overflow-hidden rounded-full bg-zinc-200/60"
+      >
+        <motion.div
+          className="h-full rounded-full bg-gradient-to-r from-indigo-300 via-violet-400 to-fuchsia-400"
+          animate={{ width: `${percent * 100}%` }}
+          transition={{ duration: 0.6, ease: "easeOut" }}
+        />
+      </div>
+      <span className="w-8 text-right text-xs font-semibold text-zinc-700">{current}</span>
+    </div>
+  );
+};
+
+const PokemonBadge = ({ pokemon }: { pokemon: BattlePokemon }) => (
+  <div className="flex flex-wrap items-center gap-2 text-xs uppercase tracking-[0.3em] text-zinc-500">
+    {pokemon.types.map((type) => (
+      <span
+        key={type}
+        className={clsx(
+          "rounded-full bg-white/70 px-3 py-1 font-semibold backdrop-blur transition-colors",
+          TYPE_STYLES[type].text,
+        )}
+      >
+        {type}
+      </span>
+    ))}
+    {(Object.keys(STAGE_LABELS) as StageStat[])
+      .filter((stat) => pokemon.stages[stat] !== 0)
+      .map((stat) => (
+        <span
+          key={stat}
+          className={clsx(
+            "rounded-full bg-white/70 px-3 py-1 text-[10px] font-semibold tracking-[0.2em] backdrop-blur",
+            pokemon.stages[stat] > 0 ? "text-emerald-500" : "text-rose-500",
+          )}
+        >
+          {STAGE_LABELS[stat]} {pokemon.stages[stat] > 0 ? "+" : "−"}
+          {Math.abs(pokemon.stages[stat])}
+        </span>
+      ))}
+    {pokemon.status && (
+      <span
+        className={clsx(
+          "rounded-full px-3 py-1 text-[10px] font-semibold tracking-[0.2em] backdrop-blur",
+          STATUS_STYLES[pokemon.status.condition].className,
+        )}
+      >
+        {STATUS_STYLES[pokemon.status.condition].label}
+      </span>
+    )}
+    <span className="rounded-full bg-white/70 px-3 py-1 text-[10px] font-semibold tracking-[0.2em] text-zinc-500 backdrop-blur">
+      Spe {effectiveSpeed(pokemon)}
+    </span>
+  </div>
+);
+
+// Steps through one row of the sheet; mount it with a `key` per pose so each pose starts at
+// its first frame. Faint holds on its last frame instead of looping.
+const SheetSprite = ({
+  sprite,
+  pose,
+  still,
+  label,
+}: {
+  sprite: Extract<SpriteDescriptor, { kind: "sheet" }>;
+  pose: SpritePose;
+  still: boolean;
+  label: string;
+}) => {
+  const [tick, setTick] = useState(0);
+  const { row, frames } = sprite.rows[pose];
+  useEffect(() => {
+    if (still || frames <= 1) return undefined;
+    const interval = window.setInterval(() => setTick((count) => count + 1), 1000 / sprite.fps);
+    return () => window.clearInterval(interval);
+  }, [still, frames, sprite.fps]);
+  const frame = still ? 0 : pose === "faint" ? Math.min(tick, frames - 1) : tick % frames;
+  return (
+    <div
+      role="img"
+      aria-label={label}
+      style={{
+        width: sprite.frameWidth,
+        height: sprite.frameHeight,
+        backgroundImage: `url(${sprite.src})`,
+        backgroundPosition: `-${frame * sprite.frameWidth}px -${row * sprite.frameHeight}px`,
+        imageRendering: "pixelated",
+      }}
+    />
+  );
+};
+
+export const FighterCard = ({
+  pokemon,
+  side,
+  label,
+  trainer,
+  ready = false,
+  active,
+  pose,
+  still,
+  shake,
+}: {
+  pokemon: BattlePokemon;
+  side: Side;
+  label: string;
+  trainer: string;
+  ready?: boolean;
+  active: boolean;
+  pose: SpritePose;
+  still: boolean;
+  shake: ReturnType<typeof useAnimationControls>;
+}) => {
+  const theme = speciesTheme(pokemon.name, pokemon.types);
+  const frame = SIDE_FRAMES[side];
+  const fainted = pokemon.hp <= 0;
+  const shown: SpritePose = fainted ? "faint" : pose;
+  const variant = fainted
+    ? "faint"
+    : still
+      ? "idle"
+      : pose === "attack"
+        ? "attack"
+        : active
+          ? "active"
+          : "idle";
+  return (
+    <motion.div
+      animate={shake}
+      className={clsx(
+        "relative flex flex-col gap-6 rounded-[28px] border p-6 backdrop-blur-2xl",
+        frame.card,
+      )}
+    >
+      <motion.div
+        key={pokemon.name}
+        className="relative flex flex-col items-start gap-3"
+        variants={BOUNCE_VARIANTS}
+        custom={{ direction: side === "player" ? 1 : -1, still }}
+        animate={variant}
+      >
+        <div
+          className={clsx(
+            "absolute -top-12 left-1/2 h-32 w-32 -translate-x-1/2 rounded-full blur-xl",
+            frame.halo,
+          )}
+        />
+        <div
+          className={clsx(
+            "relative flex h-36 w-full items-center justify-center rounded-[24px] border bg-gradient-to-br",
+            frame.well,
+            theme.well,
+            theme.shadow,
+          )}
+        >
+          <div
+            className={clsx(
+              "absolute -top-10 h-32 w-32 rounded-full bg-gradient-to-br blur-2xl",
+              theme.halo,
+            )}
+          />
+          {theme.sprite.kind === "glyph" ? (
+            <span role="img" aria-label={pokemon.name} className={clsx("text-6xl", theme.glow)}>
+              {theme.sprite.frames[shown] ?? theme.sprite.frames.idle}
+            </span>
+          ) : (
+            <SheetSprite
+              key={shown}
+              sprite={theme.sprite}
+              pose={shown}
+              still={still}
+              label={pokemon.name}
+            />
+          )}
+        </div>
+      </motion.div>
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase tracking-[0.4em] text-zinc-500">
+              {label}
+              {ready && (
+                <span className="ml-3 rounded-full bg-emerald-100/80 px-2 py-0.5 text-[10px] tracking-[0.28em] text-emerald-600">
+                  Ready
+                </span>
+              )}
+            </p>
+            <h2 className="text-2xl font-semibold text-zinc-900">{pokemon.name}</h2>
+          </div>
+          <span className="rounded-full bg-white/80 px-4 py-1 text-xs font-semibold uppercase tracking-[0.25em] text-zinc-500">
+            {pokemon.flair}
+          </span>
+        </div>
+        <PokemonBadge pokemon={pokemon} />
+      </div>
+      <div className="flex flex-col gap-2">
+        <HealthBar name={pokemon.name} trainer={trainer} current={pokemon.hp} max={pokemon.maxHp} />
+        <EnergyBar current={pokemon.energy} max={MAX_ENERGY} />
+      </div>
+    </motion.div>
+  );
+};
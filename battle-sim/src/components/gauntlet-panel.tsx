@@ -0,0 +1,162 @@
+import clsx from "clsx";
+import {
+  AI_LEVELS,
+  describeReward,
+  gauntletDifficulty,
+  memberHp,
+  memberMaxHp,
+  type GauntletReward,
+  type GauntletRun,
+} from "../battle";
+import type { GauntletRecord } from "../storage/gauntlet";
+import { formatHp } from "./fighter-card";
+
+const REWARD_LABELS: Record<GauntletReward["kind"], string> = {
+  move: "New Move",
+  boost: "Stat Boost",
+  heal: "Heal",
+};
+
+const RunSummary = ({
+  run,
+  leaderboard,
+  latest,
+}: {
+  run: GauntletRun;
+  leaderboard: GauntletRecord[];
+  latest?: GauntletRecord;
+}) => (
+  <div className="grid grid-cols-[1.2fr_1fr] gap-6 max-lg:grid-cols-1">
+    <div className="flex flex-col gap-3">
+      <p className="text-lg font-semibold text-zinc-800">
+        Run over after {run.stage} {run.stage === 1 ? "win" : "wins"}.
+      </p>
+      <ol className="flex flex-col gap-1 text-sm text-zinc-600">
+        {run.fights.map((fight) => (
+          <li key={fight.stage} className="flex items-center justify-between gap-3">
+            <span>
+              Stage {fight.stage + 1}: vs {fight.opponent.join(", ")}
+            </span>
+            <span
+              className={clsx(
+                "text-xs font-semibold uppercase tracking-[0.2em]",
+                fight.won ? "text-emerald-500" : "text-rose-500",
+              )}
+            >
+              {fight.won ? "Won" : "Lost"} in {fight.turns}
+            </span>
+          </li>
+        ))}
+      </ol>
+      {run.rewards.length > 0 && (
+        <ul className="flex flex-col gap-1 text-xs text-zinc-500">
+          {run.rewards.map((reward, index) => (
+            <li key={index}>{describeReward(run, reward)}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+    <div className="flex flex-col gap-2">
+      <p className="text-[10px] font-semibold uppercase tracking-[0.28em] text-zinc-500">
+        Best Runs
+      </p>
+      <ol className="flex flex-col gap-1 text-sm">
+        {leaderboard.map((record, index) => (
+          <li
+            key={`${record.endedAt}-${record.seed}`}
+            className={clsx(
+              "flex items-center justify-between gap-3 rounded-[12px] px-3 py-1",
+              record.endedAt === latest?.endedAt
+                ? "bg-violet-100/80 text-violet-700"
+                : "text-zinc-600",
+            )}
+          >
+            <span>
+              {index + 1}. {record.wins} {record.wins === 1 ? "win" : "wins"}
+            </span>
+            <span className="text-xs text-zinc-400">
+              {record.turns} turns · seed {record.seed}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  </div>
+);
+
+// Shows the run's roster and progress, the reward pick after a win and the summary once
+// the run is lost.
+export const GauntletPanel = ({
+  run,
+  offers,
+  leaderboard,
+  latest,
+  onPick,
+  onNewRun,
+}: {
+  run: GauntletRun;
+  offers: GauntletReward[];
+  leaderboard: GauntletRecord[];
+  latest?: GauntletRecord;
+  onPick: (reward: GauntletReward) => void;
+  onNewRun: () => void;
+}) => (
+  <section className="flex flex-col gap-5 rounded-[30px] border border-white/50 bg-white/70 p-6 shadow-[0_20px_50px_rgba(112,128,255,0.16)] backdrop-blur-2xl">
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <div>
+        <h3 className="text-sm font-semibold uppercase tracking-[0.35em] text-zinc-500">
+          Gauntlet · {run.stage} {run.stage === 1 ? "Win" : "Wins"}
+        </h3>
+        <p className="mt-1 text-xs text-zinc-400">
+          Seed {run.seed} · {run.rules.name} rules ·{" "}
+          {AI_LEVELS[gauntletDifficulty(run.stage)].label} AI
+        </p>
+      </div>
+      <button
+        onClick={onNewRun}
+        className="rounded-full border border-white/60 bg-white/80 px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.25em] text-violet-500 shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white"
+      >
+        New Run
+      </button>
+    </div>
+    <div className="flex flex-wrap gap-2">
+      {run.team.members.map((member, index) => {
+        const hp = memberHp(member);
+        const maxHp = memberMaxHp(member);
+        return (
+          <span
+            key={`${member.species}-${index}`}
+            className={clsx(
+              "rounded-full bg-white/80 px-3 py-1 text-xs font-semibold text-zinc-600",
+              hp <= 0 && "opacity-40 grayscale",
+            )}
+          >
+            {member.species} {formatHp(hp, maxHp)}
+          </span>
+        );
+      })}
+    </div>
+    {offers.length > 0 && (
+      <div className="flex flex-col gap-3">
+        <p className="text-sm font-semibold text-zinc-700">
+          Stage {run.stage} cleared. Pick a reward before the next fight.
+        </p>
+        <div className="grid grid-cols-3 gap-3 max-md:grid-cols-1">
+          {offers.map((reward) => (
+            <button
+              key={reward.kind}
+              onClick={() => onPick(reward)}
+              className="flex flex-col gap-1 rounded-[18px] border border-white/60 bg-white/80 px-4 py-3 text-left shadow-[0_10px_25px_rgba(15,23,42,0.08)] transition hover:scale-[1.02] hover:bg-white"
+            >
+              <span className="text-[10px] font-semibold uppercase tracking-[0.28em] text-violet-500">
+                {REWARD_LABELS[reward.kind]}
+              </span>
+              <span className="text-sm text-zinc-700">{describeReward(run, reward)}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    )}
+    {run.over && <RunSummary run={run} leaderboard={leaderboard} latest={latest} />}
+  </section>
+);
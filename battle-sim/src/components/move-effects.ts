@@ -0,0 +1,284 @@
+import type { Move, MoveType, Rng, Side } from "../battle";
+import { TYPE_STYLES } from "./type-styles";
+
+export type EffectPath = "straight" | "arc" | "beam" | "spiral" | "rain";
+
+// How one move looks in the arena. Times are milliseconds; `spread` is the share of the
+// arena's height the particles fan out over. The impact and flash land when the first
+// particle reaches the target.
+export interface MoveEffectSpec {
+  particles: number;
+  path: EffectPath;
+  duration: number;
+  stagger: number;
+  spread: number;
+  glyph?: string;
+  impact?: { shards: number; radius: number; color: string };
+  flash?: { color: string; opacity: number };
+}
+
+export const DEFAULT_EFFECT: MoveEffectSpec = {
+  particles: 4,
+  path: "straight",
+  duration: 1100,
+  stagger: 90,
+  spread: 0.08,
+  impact: { shards: 4, radius: 50, color: "rgba(255,255,255,0.7)" },
+};
+
+// Bundles with more particles than this are drawn on a canvas instead of as DOM nodes.
+export const CANVAS_PARTICLES = 8;
+
+export const IMPACT_MS = 300;
+
+// How far through its flight a particle on each path first reaches the target.
+const PATH_ARRIVAL: Record<EffectPath, number> = {
+  straight: 1,
+  arc: 1,
+  beam: 0.4,
+  spiral: 1,
+  rain: 1,
+};
+
+export const MOVE_EFFECTS: Record<string, Partial<MoveEffectSpec>> = {
+  "Flare Cascade": {
+    particles: 18,
+    path: "rain",
+    duration: 700,
+    stagger: 25,
+    spread: 0.3,
+    impact: { shards: 6, radius: 70, color: "rgba(251,146,60,0.55)" },
+    flash: { color: "rgba(255,186,120,1)", opacity: 0.35 },
+  },
+  "Solar Bloom": { particles: 6, path: "arc", duration: 900, stagger: 80, glyph: "🌼" },
+  "Aurora Pulse": {
+    particles: 10,
+    path: "spiral",
+    duration: 900,
+    stagger: 45,
+    impact: { shards: 5, radius: 60, color: "rgba(217,70,239,0.45)" },
+  },
+  "Stellar Crest": { particles: 5, path: "arc", duration: 800, stagger: 70, glyph: "🌟" },
+  "Petal Waltz": { particles: 12, path: "spiral", duration: 1000, stagger: 40, glyph: "🌸" },
+  "Moonlit Charm": { particles: 3, path: "arc", duration: 900, stagger: 120, glyph: "🌙" },
+  "Dew Mend": { particles: 5, path: "arc", duration: 800, stagger: 60 },
+  "Spore Veil": { particles: 14, path: "rain", duration: 900, stagger: 30, spread: 0.25 },
+  "Magma Charge": {
+    particles: 6,
+    path: "beam",
+    duration: 500,
+    stagger: 20,
+    impact: { shards: 8, radius: 90, color: "rgba(239,68,68,0.55)" },
+    flash: { color: "rgba(255,120,80,1)", opacity: 0.3 },
+  },
+  "Boulder Rush": {
+    particles: 4,
+    path: "arc",
+    duration: 700,
+    stagger: 110,
+    impact: { shards: 6, radius: 80, color: "rgba(120,113,108,0.5)" },
+  },
+  "Ember Hoof": { particles: 3, path: "straight", duration: 600, stagger: 60 },
+  "Obsidian Guard": { particles: 2, path: "straight", duration: 700, stagger: 0, glyph: "🛡️" },
+  "Nebula Torrent": {
+    particles: 16,
+    path: "spiral",
+    duration: 900,
+    stagger: 30,
+    spread: 0.12,
+    impact: { shards: 6, radius: 80, color: "rgba(56,189,248,0.5)" },
+  },
+  "Ion Crash": {
+    particles: 8,
+    path: "beam",
+    duration: 450,
+    stagger: 15,
+    impact: { shards: 7, radius: 85, color: "rgba(250,204,21,0.6)" },
+    flash: { color: "rgba(254,240,138,1)", opacity: 0.45 },
+  },
+  "Frostbound Wake": { particles: 10, path: "straight", duration: 800, stagger: 40, spread: 0.14 },
+  "Anchor Bloom": { particles: 3, path: "arc", duration: 900, stagger: 100, glyph: "⚓️" },
+  "Glacial Lance": {
+    particles: 5,
+    path: "beam",
+    duration: 500,
+    stagger: 20,
+    impact: { shards: 6, radius: 70, color: "rgba(165,243,252,0.6)" },
+    flash: { color: "rgba(224,250,255,1)", opacity: 0.35 },
+  },
+  "Mind Rime": { particles: 8, path: "spiral", duration: 900, stagger: 50 },
+  Snowmist: { particles: 20, path: "rain", duration: 1000, stagger: 25, spread: 0.35 },
+  "Crystal Chime": { particles: 6, path: "arc", duration: 800, stagger: 60, glyph: "💎" },
+  "Volt Rampart": {
+    particles: 6,
+    path: "beam",
+    duration: 500,
+    stagger: 30,
+    impact: { shards: 6, radius: 75, color: "rgba(250,204,21,0.5)" },
+  },
+  "Shale Barrage": {
+    particles: 12,
+    path: "rain",
+    duration: 700,
+    stagger: 40,
+    spread: 0.25,
+    glyph: "🪨",
+    impact: { shards: 5, radius: 70, color: "rgba(168,162,158,0.5)" },
+  },
+  "Static Surge": { particles: 6, path: "spiral", duration: 700, stagger: 35 },
+  Tidebreaker: {
+    particles: 10,
+    path: "arc",
+    duration: 800,
+    stagger: 35,
+    impact: { shards: 5, radius: 75, color: "rgba(59,130,246,0.45)" },
+  },
+};
+
+export const moveEffect = (move: Move): MoveEffectSpec => ({
+  ...DEFAULT_EFFECT,
+  ...MOVE_EFFECTS[move.name],
+});
+
+export interface EffectParticle {
+  id: string;
+  bundle: string;
+  side: Side;
+  type: MoveType;
+  glyph: string;
+  path: EffectPath;
+  delay: number;
+  duration: number;
+  lift: number;
+  phase: number;
+  missed: boolean;
+  canvas: boolean;
+  launchedAt: number;
+}
+
+export interface ImpactBurst {
+  bundle: string;
+  side: Side;
+  glyph: string;
+  shards: number;
+  radius: number;
+  color: string;
+}
+
+export interface ScreenFlash {
+  bundle: string;
+  color: string;
+  opacity: number;
+}
+
+// `arrival` is when the lead particle reaches the target and `finish` when the last particle
+// and any impact have played out, both in milliseconds from launch at the pace it was launched.
+export interface LaunchedEffect {
+  bundle: string;
+  particles: EffectParticle[];
+  arrival: number;
+  finish: number;
+  impact?: ImpactBurst;
+  flash?: ScreenFlash;
+}
+
+export interface ParticleFrame {
+  x: number;
+  y: number;
+  scale: number;
+  rotate: number;
+  opacity: number;
+}
+
+// Attacks leave from each card's sprite and cross most of the arena; coordinates are
+// fractions of the arena's width and height.
+const ORIGIN_X = 0.22;
+const TARGET_X = 0.78;
+const LANE_Y = 0.55;
+
+export const targetPoint = (side: Side) => ({
+  x: side === "player" ? TARGET_X : ORIGIN_X,
+  y: LANE_Y,
+});
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+// Where a particle sits `t` (0–1) of the way through its flight. A miss sails past the
+// target and drifts upward.
+export const particleAt = (particle: EffectParticle, t: number): ParticleFrame => {
+  const direction = particle.side === "player" ? 1 : -1;
+  const from = particle.side === "player" ? ORIGIN_X : TARGET_X;
+  const reach = (TARGET_X - ORIGIN_X) * (particle.missed ? 1.4 : 1);
+  const opacity = t < 0.15 ? t / 0.15 : t > 0.85 ? (1 - t) / 0.15 : 1;
+  const scale = t < 0.5 ? lerp(0.6, 1.05, t * 2) : lerp(1.05, 0.8, (t - 0.5) * 2);
+  const drift = particle.missed ? -0.18 * t : 0;
+  let x = from + direction * reach * t;
+  let y = LANE_Y + particle.lift * (1 - 0.8 * t);
+  let rotate = direction * 14 * t;
+
+  switch (particle.path) {
+    case "arc":
+      y = LANE_Y + particle.lift - 0.32 * Math.sin(Math.PI * Math.min(t, 1));
+      break;
+    case "beam":
+      x = from + direction * reach * Math.min(1, t * 2.5);
+      y = LANE_Y + particle.lift * 0.15;
+      rotate = 0;
+      break;
+    case "spiral":
+      y = LANE_Y + particle.lift * 0.4 + 0.08 * Math.sin(t * 4 * Math.PI + particle.phase);
+      rotate = direction * 360 * t;
+      break;
+    case "rain":
+      x = from + direction * reach + particle.lift * 0.5;
+      y = lerp(-0.1, LANE_Y + 0.05, t);
+      rotate = direction * 10;
+      break;
+    default:
+      break;
+  }
+  if (particle.missed) rotate += direction * 18;
+  return { x, y: y + drift, scale, rotate, opacity };
+};
+
+// `side` is the attacker's side on screen. The impact and flash are returned for the caller
+// to show when the hit lands, if it does.
+export const launchEffect = (
+  move: Move,
+  side: Side,
+  rng: Rng,
+  missed: boolean,
+  pace = 1,
+): LaunchedEffect => {
+  const effect = moveEffect(move);
+  const bundle = `${Date.now().toString(36)}-${rng.next().toString(36).slice(2)}`;
+  const glyph = effect.glyph ?? TYPE_STYLES[move.type].icon;
+  const launchedAt = performance.now();
+  const particles = Array.from({ length: effect.particles }).map(
+    (_, index): EffectParticle => ({
+      id: `${bundle}-${index}`,
+      bundle,
+      side,
+      type: move.type,
+      glyph,
+      path: effect.path,
+      delay: (index * effect.stagger) / pace,
+      duration: effect.duration / pace,
+      lift: (rng.next() - 0.5) * effect.spread * 2,
+      phase: rng.next() * Math.PI * 2,
+      missed,
+      canvas: effect.particles > CANVAS_PARTICLES,
+      launchedAt,
+    }),
+  );
+  const arrival = (effect.duration * PATH_ARRIVAL[effect.path]) / pace;
+  const lastLanding = ((effect.particles - 1) * effect.stagger + effect.duration) / pace;
+  return {
+    bundle,
+    particles,
+    arrival,
+    finish: Math.max(lastLanding, arrival + IMPACT_MS),
+    ...(effect.impact ? { impact: { bundle, side, glyph, ...effect.impact } } : {}),
+    ...(effect.flash ? { flash: { bundle, ...effect.flash } } : {}),
+  };
+};
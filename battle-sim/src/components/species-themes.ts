@@ -0,0 +1,83 @@
+import type { MoveType } from "../battle";
+import { TYPE_STYLES } from "./type-styles";
+
+export type SpritePose = "idle" | "attack" | "hit" | "faint";
+
+// Either emoji glyphs (only `idle` is required) or a sprite sheet with one row per pose.
+export type SpriteDescriptor =
+  | { kind: "glyph"; frames: { idle: string } & Partial<Record<SpritePose, string>> }
+  | {
+      kind: "sheet";
+      src: string;
+      frameWidth: number;
+      frameHeight: number;
+      fps: number;
+      rows: Record<SpritePose, { row: number; frames: number }>;
+    };
+
+export interface SpeciesTheme {
+  sprite: SpriteDescriptor;
+  well: string;
+  halo: string;
+  shadow: string;
+  glow: string;
+}
+
+export const SPECIES_THEMES: Record<string, SpeciesTheme> = {
+  Solaris: {
+    sprite: { kind: "glyph", frames: { idle: "🔆", attack: "☀️", hit: "🌥️", faint: "🌑" } },
+    well: "from-amber-50/90 via-white/80 to-white/90",
+    halo: "from-orange-100/70 via-amber-200/80 to-rose-200/60",
+    shadow: "shadow-[0_18px_45px_rgba(255,186,142,0.22)]",
+    glow: "drop-shadow-[0_18px_35px_rgba(255,176,89,0.45)]",
+  },
+  Petalwisp: {
+    sprite: { kind: "glyph", frames: { idle: "🌷", attack: "🌸", hit: "🥀", faint: "🍂" } },
+    well: "from-pink-50/90 via-white/80 to-emerald-50/80",
+    halo: "from-pink-100/70 via-rose-200/70 to-emerald-100/60",
+    shadow: "shadow-[0_18px_45px_rgba(244,114,182,0.22)]",
+    glow: "drop-shadow-[0_18px_35px_rgba(236,72,153,0.4)]",
+  },
+  Cinderhorn: {
+    sprite: { kind: "glyph", frames: { idle: "🐏", attack: "🔥", hit: "💢", faint: "🪵" } },
+    well: "from-orange-50/90 via-white/80 to-stone-100/80",
+    halo: "from-orange-200/70 via-red-200/70 to-stone-200/60",
+    shadow: "shadow-[0_18px_45px_rgba(234,88,12,0.2)]",
+    glow: "drop-shadow-[0_18px_35px_rgba(234,88,12,0.4)]",
+  },
+  "Tidal Vanguard": {
+    sprite: { kind: "glyph", frames: { idle: "🌊", attack: "🌀", hit: "💦", faint: "🫧" } },
+    well: "from-sky-50/90 via-white/90 to-white/75",
+    halo: "from-sky-100/70 via-cyan-200/80 to-indigo-200/60",
+    shadow: "shadow-[0_18px_45px_rgba(120,160,255,0.25)]",
+    glow: "drop-shadow-[0_18px_35px_rgba(96,165,250,0.45)]",
+  },
+  Frostveil: {
+    sprite: { kind: "glyph", frames: { idle: "❄️", attack: "🔮", hit: "🧊", faint: "💧" } },
+    well: "from-cyan-50/90 via-white/90 to-violet-50/80",
+    halo: "from-cyan-100/70 via-sky-100/80 to-violet-200/60",
+    shadow: "shadow-[0_18px_45px_rgba(103,232,249,0.25)]",
+    glow: "drop-shadow-[0_18px_35px_rgba(167,139,250,0.45)]",
+  },
+  Stormbastion: {
+    sprite: { kind: "glyph", frames: { idle: "🏰", attack: "⚡️", hit: "🌩️", faint: "🏚️" } },
+    well: "from-yellow-50/90 via-white/80 to-slate-100/80",
+    halo: "from-yellow-100/70 via-amber-200/70 to-slate-200/60",
+    shadow: "shadow-[0_18px_45px_rgba(250,204,21,0.22)]",
+    glow: "drop-shadow-[0_18px_35px_rgba(234,179,8,0.45)]",
+  },
+};
+
+// Species without a theme of their own borrow the look of their first type.
+export const speciesTheme = (species: string, types: MoveType[]): SpeciesTheme => {
+  const theme = SPECIES_THEMES[species];
+  if (theme) return theme;
+  const style = TYPE_STYLES[types[0] ?? "Normal"];
+  return {
+    sprite: { kind: "glyph", frames: { idle: style.icon } },
+    well: "from-white/90 via-white/80 to-white/90",
+    halo: `${style.from} ${style.via} ${style.to} opacity-40`,
+    shadow: style.glow,
+    glow: "drop-shadow-[0_18px_35px_rgba(15,23,42,0.2)]",
+  };
+};
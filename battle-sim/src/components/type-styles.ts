@@ -0,0 +1,158 @@
+import type { MoveType } from "../battle";
+
+export const TYPE_STYLES: Record<
+  MoveType,
+  { from: string; via: string; to: string; text: string; glow: string; icon: string }
+> = {
+  Normal: {
+    from: "from-stone-200",
+    via: "via-zinc-300",
+    to: "to-neutral-400",
+    text: "text-stone-400",
+    glow: "shadow-[0_0_22px_rgba(168,162,158,0.38)]",
+    icon: "⭐️",
+  },
+  Fire: {
+    from: "from-orange-400",
+    via: "via-rose-500",
+    to: "to-amber-500",
+    text: "text-orange-400",
+    glow: "shadow-[0_0_22px_rgba(255,145,72,0.45)]",
+    icon: "🔥",
+  },
+  Water: {
+    from: "from-sky-300",
+    via: "via-blue-500",
+    to: "to-cyan-500",
+    text: "text-sky-300",
+    glow: "shadow-[0_0_22px_rgba(56,189,248,0.42)]",
+    icon: "💧",
+  },
+  Electric: {
+    from: "from-amber-300",
+    via: "via-yellow-400",
+    to: "to-orange-400",
+    text: "text-amber-300",
+    glow: "shadow-[0_0_22px_rgba(252,211,77,0.45)]",
+    icon: "⚡️",
+  },
+  Grass: {
+    from: "from-teal-300",
+    via: "via-emerald-400",
+    to: "to-lime-400",
+    text: "text-emerald-300",
+    glow: "shadow-[0_0_22px_rgba(52,211,153,0.42)]",
+    icon: "🍃",
+  },
+  Ice: {
+    from: "from-cyan-200",
+    via: "via-sky-200",
+    to: "to-blue-300",
+    text: "text-cyan-200",
+    glow: "shadow-[0_0_22px_rgba(165,243,252,0.45)]",
+    icon: "❄️",
+  },
+  Fighting: {
+    from: "from-red-400",
+    via: "via-orange-600",
+    to: "to-rose-700",
+    text: "text-red-400",
+    glow: "shadow-[0_0_22px_rgba(239,68,68,0.42)]",
+    icon: "🥊",
+  },
+  Poison: {
+    from: "from-purple-300",
+    via: "via-violet-500",
+    to: "to-fuchsia-600",
+    text: "text-purple-400",
+    glow: "shadow-[0_0_22px_rgba(168,85,247,0.42)]",
+    icon: "☠️",
+  },
+  Ground: {
+    from: "from-amber-200",
+    via: "via-yellow-600",
+    to: "to-orange-700",
+    text: "text-yellow-600",
+    glow: "shadow-[0_0_22px_rgba(202,138,4,0.4)]",
+    icon: "⛰️",
+  },
+  Flying: {
+    from: "from-sky-200",
+    via: "via-indigo-300",
+    to: "to-violet-300",
+    text: "text-indigo-300",
+    glow: "shadow-[0_0_22px_rgba(165,180,252,0.45)]",
+    icon: "🪶",
+  },
+  Psychic: {
+    from: "from-fuchsia-400",
+    via: "via-purple-500",
+    to: "to-pink-500",
+    text: "text-fuchsia-300",
+    glow: "shadow-[0_0_22px_rgba(217,70,239,0.42)]",
+    icon: "✨",
+  },
+  Bug: {
+    from: "from-lime-300",
+    via: "via-green-500",
+    to: "to-emerald-600",
+    text: "text-lime-400",
+    glow: "shadow-[0_0_22px_rgba(132,204,22,0.42)]",
+    icon: "🐞",
+  },
+  Rock: {
+    from: "from-stone-400",
+    via: "via-amber-600",
+    to: "to-zinc-500",
+    text: "text-amber-400",
+    glow: "shadow-[0_0_22px_rgba(120,113,108,0.42)]",
+    icon: "🪨",
+  },
+  Ghost: {
+    from: "from-indigo-300",
+    via: "via-violet-600",
+    to: "to-slate-700",
+    text: "text-violet-400",
+    glow: "shadow-[0_0_22px_rgba(109,40,217,0.42)]",
+    icon: "👻",
+  },
+  Dragon: {
+    from: "from-indigo-400",
+    via: "via-blue-600",
+    to: "to-violet-700",
+    text: "text-indigo-400",
+    glow: "shadow-[0_0_22px_rgba(79,70,229,0.45)]",
+    icon: "🐉",
+  },
+  Dark: {
+    from: "from-zinc-500",
+    via: "via-stone-700",
+    to: "to-neutral-900",
+    text: "text-zinc-500",
+    glow: "shadow-[0_0_22px_rgba(39,39,42,0.45)]",
+    icon: "🌑",
+  },
+  Steel: {
+    from: "from-slate-200",
+    via: "via-slate-400",
+    to: "to-zinc-500",
+    text: "text-slate-400",
+    glow: "shadow-[0_0_22px_rgba(148,163,184,0.45)]",
+    icon: "⚙️",
+  },
+  Fairy: {
+    from: "from-pink-200",
+    via: "via-rose-300",
+    to: "to-purple-300",
+    text: "text-pink-200",
+    glow: "shadow-[0_0_22px_rgba(244,114,182,0.38)]",
+    icon: "🌸",
+  },
+};
+
+export const matchupStyle = (multiplier: number) => {
+  if (multiplier === 0) return "bg-zinc-800/90 text-zinc-100";
+  if (multiplier > 1) return "bg-emerald-100/90 text-emerald-700";
+  if (multiplier < 1) return "bg-rose-100/90 text-rose-600";
+  return "bg-white/70 text-zinc-400";
+};
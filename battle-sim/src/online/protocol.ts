@@ -0,0 +1,94 @@
+import {
+  SIDES,
+  type BattleAction,
+  type BattleState,
+  type BattleStep,
+  type Replay,
+  type Side,
+  type TeamSpec,
+} from "../battle";
+
+export const ONLINE_PORT = 3001;
+export const TURN_SECONDS = 45;
+export const RECONNECT_SECONDS = 60;
+export const ROOM_CODE_LENGTH = 12;
+
+const ROOM_CODE = new RegExp(`^[A-Z0-9]{1,${ROOM_CODE_LENGTH}}$`);
+
+export const isRoomCode = (code: string) => ROOM_CODE.test(code.trim().toUpperCase());
+
+export type ClientMessage =
+  | { type: "join"; room?: string; name?: string; team?: TeamSpec; token?: string }
+  | { type: "action"; action: BattleAction }
+  | { type: "leave" };
+
+export type ServerMessage =
+  | { type: "joined"; room: string; side: Side; token: string }
+  | { type: "waiting"; room: string }
+  | {
+      type: "sync";
+      state: BattleState;
+      ready: Side[];
+      names: Record<Side, string>;
+      connected: Record<Side, boolean>;
+      deadline: number;
+    }
+  | { type: "ready"; sides: Side[] }
+  | { type: "turn"; steps: BattleStep[]; deadline: number }
+  | { type: "presence"; side: Side; connected: boolean }
+  | { type: "end"; victor: Side; reason: "victory" | "forfeit"; replay: Replay }
+  | { type: "error"; message: string; issues?: string[] };
+
+export const readySides = (state: BattleState) =>
+  SIDES.filter((side) => state.choices[side] !== undefined);
+
+// Each client may see its own locked-in choice, never the other side's.
+export const redactChoices = (state: BattleState, side: Side): BattleState => {
+  const own = state.choices[side];
+  return { ...state, choices: own ? { [side]: own } : {} };
+};
+
+// The RNG state would let a client work out every upcoming crit, miss and speed tie, so clients
+// get zeros instead. The seed arrives with the replay once the battle is over.
+export const redactRolls = (state: BattleState): BattleState => ({ ...state, rng: 0, seed: 0 });
+
+export const encodeMessage = (message: ClientMessage | ServerMessage) => JSON.stringify(message);
+
+export const decodeMessage = <T extends { type: string }>(text: string): T | null => {
+  try {
+    const message: unknown = JSON.parse(text);
+    return typeof message === "object" && message !== null && "type" in message
+      ? (message as T)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === "string";
+
+// The server trusts nothing a client sends: fields of the wrong type reject the whole message.
+// Teams and actions are only checked for being objects here; parseTeam and parseAction vet the
+// rest.
+export const decodeClientMessage = (text: string): ClientMessage | null => {
+  const message: unknown = decodeMessage(text);
+  if (!isRecord(message)) return null;
+  switch (message.type) {
+    case "join": {
+      const { room, name, team, token } = message;
+      if (![room, name, token].every(isOptionalString)) return null;
+      if (typeof room === "string" && !isRoomCode(room)) return null;
+      if (team !== undefined && !isRecord(team)) return null;
+      return message as ClientMessage;
+    }
+    case "action":
+      return isRecord(message.action) ? (message as ClientMessage) : null;
+    case "leave":
+      return { type: "leave" };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,208 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  opposingSide,
+  type BattleAction,
+  type BattleState,
+  type BattleStep,
+  type Replay,
+  type Side,
+  type TeamSpec,
+} from "../battle";
+import {
+  decodeMessage,
+  encodeMessage,
+  ONLINE_PORT,
+  type ClientMessage,
+  type ServerMessage,
+} from "./protocol";
+
+export type OnlineStatus = "idle" | "connecting" | "waiting" | "playing" | "reconnecting" | "ended";
+
+export interface OnlineSession {
+  status: OnlineStatus;
+  room?: string;
+  side?: Side;
+  names?: Record<Side, string>;
+  ready: Side[];
+  deadline?: number;
+  foeConnected: boolean;
+  error?: string;
+  issues?: string[];
+}
+
+export interface OnlineHandlers {
+  onSync: (state: BattleState) => void;
+  onTurn: (steps: BattleStep[]) => void;
+  onEnd: (victor: Side, reason: "victory" | "forfeit", replay: Replay) => void;
+}
+
+export interface JoinRequest {
+  room?: string;
+  name?: string;
+  team: TeamSpec;
+}
+
+const IDLE: OnlineSession = { status: "idle", ready: [], foeConnected: true };
+const MAX_RETRY_MS = 10_000;
+
+export const serverUrl = () =>
+  process.env.NEXT_PUBLIC_BATTLE_SERVER ??
+  `${window.location.protocol === "https:" ? "wss" : "ws"}://${window.location.hostname}:${ONLINE_PORT}`;
+
+export const useOnlineBattle = (handlers: OnlineHandlers) => {
+  const [session, setSession] = useState<OnlineSession>(IDLE);
+  const handlersRef = useRef(handlers);
+  const socketRef = useRef<WebSocket | null>(null);
+  const requestRef = useRef<JoinRequest | null>(null);
+  const tokenRef = useRef<string | null>(null);
+  const seatedRef = useRef(false);
+  const retryRef = useRef({ attempts: 0, timer: 0 });
+  // Retries go through here so a reconnect always uses the latest `connect`.
+  const connectRef = useRef(() => {});
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) socket.send(encodeMessage(message));
+  }, []);
+
+  const disconnect = useCallback(() => {
+    window.clearTimeout(retryRef.current.timer);
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+  }, []);
+
+  const handleMessage = useCallback(
+    (message: ServerMessage) => {
+      switch (message.type) {
+        case "joined":
+          seatedRef.current = true;
+          tokenRef.current = message.token;
+          setSession((prev) => ({ ...prev, room: message.room, side: message.side }));
+          return;
+        case "waiting":
+          setSession((prev) => ({ ...prev, status: "waiting", room: message.room }));
+          return;
+        case "sync":
+          setSession((prev) => ({
+            ...prev,
+            status: "playing",
+            names: message.names,
+            ready: message.ready,
+            deadline: message.deadline,
+            foeConnected: prev.side ? message.connected[opposingSide(prev.side)] : true,
+            error: undefined,
+            issues: undefined,
+          }));
+          handlersRef.current.onSync(message.state);
+          return;
+        case "ready":
+          setSession((prev) => ({ ...prev, ready: message.sides }));
+          return;
+        case "turn":
+          setSession((prev) => ({ ...prev, ready: [], deadline: message.deadline }));
+          handlersRef.current.onTurn(message.steps);
+          return;
+        case "presence":
+          setSession((prev) =>
+            message.side === prev.side ? prev : { ...prev, foeConnected: message.connected },
+          );
+          return;
+        case "end":
+          tokenRef.current = null;
+          setSession((prev) => ({ ...prev, status: "ended", deadline: undefined }));
+          handlersRef.current.onEnd(message.victor, message.reason, message.replay);
+          disconnect();
+          return;
+        case "error":
+          // Errors before a seat is confirmed mean the join (or rejoin) was refused.
+          if (!seatedRef.current) {
+            tokenRef.current = null;
+            disconnect();
+          }
+          setSession((prev) => ({
+            ...prev,
+            status: seatedRef.current ? prev.status : "idle",
+            error: message.message,
+            issues: message.issues,
+          }));
+      }
+    },
+    [disconnect],
+  );
+
+  const connect = useCallback(() => {
+    const socket = new WebSocket(serverUrl());
+    socketRef.current = socket;
+    seatedRef.current = false;
+
+    socket.onopen = () => {
+      retryRef.current.attempts = 0;
+      const request = requestRef.current;
+      if (tokenRef.current) {
+        send({ type: "join", token: tokenRef.current });
+      } else if (request) {
+        send({ type: "join", ...request });
+      }
+    };
+    socket.onmessage = (event) => {
+      const message = decodeMessage<ServerMessage>(String(event.data));
+      if (message) handleMessage(message);
+    };
+    // Dropped connections retry with backoff; the server holds the seat for a while.
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return;
+      socketRef.current = null;
+      seatedRef.current = false;
+      if (!tokenRef.current) {
+        setSession((prev) => ({
+          ...prev,
+          status: "idle",
+          error: prev.error ?? "Couldn’t reach the battle server.",
+        }));
+        return;
+      }
+      const delay = Math.min(MAX_RETRY_MS, 1000 * 2 ** retryRef.current.attempts);
+      retryRef.current.attempts += 1;
+      setSession((prev) => ({ ...prev, status: "reconnecting" }));
+      retryRef.current.timer = window.setTimeout(() => connectRef.current(), delay);
+    };
+  }, [handleMessage, send]);
+
+  useEffect(() => {
+    connectRef.current = connect;
+  }, [connect]);
+
+  const join = useCallback(
+    (request: JoinRequest) => {
+      disconnect();
+      requestRef.current = request;
+      tokenRef.current = null;
+      setSession({ ...IDLE, status: "connecting" });
+      connect();
+    },
+    [connect, disconnect],
+  );
+
+  const submit = useCallback(
+    (action: BattleAction) => send({ type: "action", action }),
+    [send],
+  );
+
+  const leave = useCallback(() => {
+    send({ type: "leave" });
+    tokenRef.current = null;
+    disconnect();
+    setSession(IDLE);
+  }, [disconnect, send]);
+
+  useEffect(() => disconnect, [disconnect]);
+
+  return { session, join, submit, leave };
+};
@@ -0,0 +1,32 @@
+const AUDIO_KEY = "atelier-battle:audio";
+
+export interface AudioSettings {
+  volume: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { volume: 0.6, muted: false };
+
+export const loadAudioSettings = (): AudioSettings => {
+  if (typeof window === "undefined") return DEFAULT_AUDIO_SETTINGS;
+  const text = window.localStorage.getItem(AUDIO_KEY);
+  if (!text) return DEFAULT_AUDIO_SETTINGS;
+  try {
+    const raw: unknown = JSON.parse(text);
+    const { volume, muted } = (raw ?? {}) as Partial<Record<keyof AudioSettings, unknown>>;
+    return {
+      volume:
+        typeof volume === "number" && volume >= 0 && volume <= 1
+          ? volume
+          : DEFAULT_AUDIO_SETTINGS.volume,
+      muted: typeof muted === "boolean" ? muted : DEFAULT_AUDIO_SETTINGS.muted,
+    };
+  } catch (error) {
+    console.warn(error);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  window.localStorage.setItem(AUDIO_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,111 @@
+import {
+  appendMessage,
+  ContentError,
+  DIFFICULTIES,
+  parseReplay,
+  replayState,
+  type BattleState,
+  type Difficulty,
+  type LogEntry,
+  type Replay,
+} from "../battle";
+
+const BATTLE_KEY = "atelier-battle:battle";
+
+export const SAVED_BATTLE_VERSION = 2;
+
+export type SavedBattleMode = "ai" | "hotseat";
+
+// The replay is the source of truth; the state (with its RNG and any locked-in choice) is
+// kept alongside so a save made by different content or engine code can be detected.
+export interface SavedBattle {
+  version: number;
+  savedAt: number;
+  mode: SavedBattleMode;
+  difficulty: Difficulty;
+  replay: Replay;
+  state: BattleState;
+  log: LogEntry[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isLogEntry = (value: unknown): value is LogEntry =>
+  isRecord(value) &&
+  typeof value.id === "number" &&
+  typeof value.turn === "number" &&
+  typeof value.kind === "string" &&
+  typeof value.text === "string" &&
+  Array.isArray(value.flags);
+
+// Version 1 kept the timeline as plain strings, newest first.
+const readLog = (raw: Record<string, unknown>): LogEntry[] => {
+  if (!Array.isArray(raw.log)) return [];
+  if (raw.version === 1) {
+    return raw.log
+      .filter((entry): entry is string => typeof entry === "string")
+      .reverse()
+      .reduce<LogEntry[]>((log, text) => appendMessage(log, text), []);
+  }
+  return raw.log.filter(isLogEntry).map((entry, id) => ({ ...entry, id }));
+};
+
+// Autosaves run while a turn resolves, so a full or blocked storage only costs the save.
+export const saveBattle = (battle: Omit<SavedBattle, "version" | "savedAt">) => {
+  const saved: SavedBattle = { version: SAVED_BATTLE_VERSION, savedAt: Date.now(), ...battle };
+  try {
+    window.localStorage.setItem(BATTLE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.warn(error);
+  }
+};
+
+export const clearSavedBattle = () => {
+  try {
+    window.localStorage.removeItem(BATTLE_KEY);
+  } catch (error) {
+    console.warn(error);
+  }
+};
+
+export const parseSavedBattle = (text: string): SavedBattle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ContentError("saved battle", ["the save is not valid JSON"]);
+  }
+  if (!isRecord(raw) || (raw.version !== 1 && raw.version !== SAVED_BATTLE_VERSION)) {
+    throw new ContentError("saved battle", [`version must be 1 or ${SAVED_BATTLE_VERSION}`]);
+  }
+  const replay = parseReplay(raw.replay, undefined, "saved battle");
+  const state = replayState(replay);
+  const saved = isRecord(raw.state) ? raw.state : {};
+  if (state.rng !== saved.rng || state.turn !== saved.turn) {
+    throw new ContentError("saved battle", ["the saved state no longer matches its replay"]);
+  }
+  return {
+    version: SAVED_BATTLE_VERSION,
+    savedAt: typeof raw.savedAt === "number" ? raw.savedAt : 0,
+    mode: raw.mode === "hotseat" ? "hotseat" : "ai",
+    difficulty: DIFFICULTIES.find((level) => level === raw.difficulty) ?? "normal",
+    replay,
+    state,
+    log: readLog(raw),
+  };
+};
+
+export const loadSavedBattle = (): SavedBattle | null => {
+  if (typeof window === "undefined") return null;
+  const text = window.localStorage.getItem(BATTLE_KEY);
+  if (!text) return null;
+  try {
+    const saved = parseSavedBattle(text);
+    return saved.state.victor ? null : saved;
+  } catch (error) {
+    console.warn(error);
+    clearSavedBattle();
+    return null;
+  }
+};
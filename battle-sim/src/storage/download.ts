@@ -0,0 +1,14 @@
+export const fileSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+export const downloadText = (filename: string, text: string, type = "text/plain") => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadJson = (filename: string, text: string) =>
+  downloadText(filename, text, "application/json");
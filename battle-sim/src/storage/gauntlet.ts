@@ -0,0 +1,57 @@
+import type { GauntletRun } from "../battle";
+
+const LEADERBOARD_KEY = "atelier-battle:gauntlet";
+const LEADERBOARD_SIZE = 10;
+
+export interface GauntletRecord {
+  seed: number;
+  wins: number;
+  turns: number;
+  team: string[];
+  endedAt: number;
+}
+
+export const summarizeRun = (run: GauntletRun, endedAt = Date.now()): GauntletRecord => ({
+  seed: run.seed,
+  wins: run.stage,
+  turns: run.fights.reduce((total, fight) => total + fight.turns, 0),
+  team: run.team.members.map((member) => member.species),
+  endedAt,
+});
+
+const isRecord = (value: unknown): value is GauntletRecord => {
+  if (typeof value !== "object" || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.seed === "number" &&
+    typeof record.wins === "number" &&
+    typeof record.turns === "number" &&
+    typeof record.endedAt === "number" &&
+    Array.isArray(record.team)
+  );
+};
+
+// Best runs first: most wins, then fewest turns taken to get them.
+const rank = (records: GauntletRecord[]) =>
+  [...records]
+    .sort((a, b) => b.wins - a.wins || a.turns - b.turns || a.endedAt - b.endedAt)
+    .slice(0, LEADERBOARD_SIZE);
+
+export const loadLeaderboard = (): GauntletRecord[] => {
+  if (typeof window === "undefined") return [];
+  const text = window.localStorage.getItem(LEADERBOARD_KEY);
+  if (!text) return [];
+  try {
+    const raw: unknown = JSON.parse(text);
+    return Array.isArray(raw) ? rank(raw.filter(isRecord)) : [];
+  } catch (error) {
+    console.warn(error);
+    return [];
+  }
+};
+
+export const recordRun = (record: GauntletRecord): GauntletRecord[] => {
+  const leaderboard = rank([...loadLeaderboard(), record]);
+  window.localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(leaderboard));
+  return leaderboard;
+};
@@ -0,0 +1,99 @@
+import type { MatchRecord } from "../battle";
+import { downloadText } from "./download";
+
+const DB_NAME = "atelier-battle";
+const DB_VERSION = 1;
+const MATCH_STORE = "matches";
+
+const openHistory = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(MATCH_STORE)) {
+        request.result.createObjectStore(MATCH_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openHistory();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(MATCH_STORE, mode);
+    const request = run(transaction.objectStore(MATCH_STORE));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+export const saveMatch = async (record: MatchRecord) => {
+  await withStore("readwrite", (store) => store.put(record));
+};
+
+export const loadMatches = async (): Promise<MatchRecord[]> => {
+  const records = await withStore(
+    "readonly",
+    (store) => store.getAll() as IDBRequest<MatchRecord[]>,
+  );
+  return records.sort((a, b) => b.playedAt - a.playedAt);
+};
+
+export const clearMatches = async () => {
+  await withStore("readwrite", (store) => store.clear());
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_HEADER = [
+  "played_at",
+  "opponent",
+  "side",
+  "result",
+  "turns",
+  "seed",
+  "crits",
+  "super_effective",
+  "damage_dealt",
+  "damage_taken",
+  "most_used_move",
+];
+
+export const matchesToCsv = (records: MatchRecord[]) =>
+  [
+    CSV_HEADER,
+    ...records.map((record) => {
+      const favourite = [...record.moves].sort((a, b) => b.uses - a.uses)[0];
+      return [
+        new Date(record.playedAt).toISOString(),
+        record.opponent,
+        record.side,
+        record.won ? "win" : "loss",
+        record.turns,
+        record.seed,
+        record.crits,
+        record.superEffective,
+        record.species.reduce((total, entry) => total + entry.damageDealt, 0),
+        record.species.reduce((total, entry) => total + entry.damageTaken, 0),
+        favourite?.move ?? "",
+      ];
+    }),
+  ]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\n") + "\n";
+
+export const downloadMatchHistory = (records: MatchRecord[]) => {
+  downloadText("atelier-match-history.csv", matchesToCsv(records), "text/csv");
+};
@@ -0,0 +1,18 @@
+import { ContentError, parseReplay, type Replay } from "../battle";
+import { downloadJson } from "./download";
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+export const parseReplayText = (text: string, source = "replay file"): Replay => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ContentError(source, ["the file is not valid JSON"]);
+  }
+  return parseReplay(raw, undefined, source);
+};
+
+export const downloadReplay = (replay: Replay) => {
+  downloadJson(`atelier-replay-${replay.seed}.json`, serializeReplay(replay));
+};
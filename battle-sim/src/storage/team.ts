@@ -0,0 +1,43 @@
+import { CONTENT, ContentError, parseTeam, type TeamSpec } from "../battle";
+import { downloadJson, fileSlug } from "./download";
+
+const TEAM_KEY = "atelier-battle:team";
+
+export const TEAM_FILE_VERSION = 1;
+
+export const serializeTeam = (team: TeamSpec) =>
+  JSON.stringify({ version: TEAM_FILE_VERSION, ...team }, null, 2);
+
+export const parseTeamText = (text: string, source = "team file"): TeamSpec => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ContentError(source, ["the file is not valid JSON"]);
+  }
+  return parseTeam(raw, CONTENT.species, source);
+};
+
+export const loadSavedTeam = (): TeamSpec | null => {
+  if (typeof window === "undefined") return null;
+  const text = window.localStorage.getItem(TEAM_KEY);
+  if (!text) return null;
+  try {
+    return parseTeamText(text, "saved team");
+  } catch (error) {
+    console.warn(error);
+    return null;
+  }
+};
+
+export const saveTeam = (team: TeamSpec) => {
+  window.localStorage.setItem(TEAM_KEY, serializeTeam(team));
+};
+
+export const clearSavedTeam = () => {
+  window.localStorage.removeItem(TEAM_KEY);
+};
+
+export const downloadTeam = (team: TeamSpec) => {
+  downloadJson(`${fileSlug(team.name ?? "atelier-team")}.json`, serializeTeam(team));
+};
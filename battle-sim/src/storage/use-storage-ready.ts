@@ -0,0 +1,15 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+const subscribe = () => () => {};
+
+// False for the server render and the hydration pass, true afterwards. Pages key their body
+// on it and read localStorage in lazy initializers only once it is true, so the first client
+// render matches the server's and saved data arrives in a fresh mount right after.
+export const useStorageReady = () =>
+  useSyncExternalStore(
+    subscribe,
+    () => true,
+    () => false,
+  );